@@ -1,16 +1,42 @@
-import { defineConfig } from 'rolldown'
+import { defineConfig, type RenderedChunk } from 'rolldown'
+
+// The CLI needs a shebang, and the React entry must be marked as a client
+// module so React Server Components frameworks can import it
+function banner(chunk: RenderedChunk): string {
+  if (chunk.name === 'cli') {
+    return '#!/usr/bin/env node'
+  }
+
+  if (chunk.name === 'react/index') {
+    return "'use client'"
+  }
+
+  return ''
+}
 
 export default defineConfig({
-  input: 'src/index.ts',
+  input: {
+    index: 'src/index.ts',
+    cli: 'src/cli/bin.ts',
+    'next/index': 'src/next/index.ts',
+    'react/index': 'src/react/index.ts',
+    'vue/index': 'src/vue/index.ts'
+  },
   output: [
     {
       format: 'esm',
-      file: 'dist/index.mjs'
+      dir: 'dist',
+      entryFileNames: '[name].mjs',
+      banner,
+      chunkFileNames: '[name]-[hash].mjs'
     },
     {
       format: 'cjs',
-      file: 'dist/index.cjs'
+      dir: 'dist',
+      entryFileNames: '[name].cjs',
+      banner,
+      chunkFileNames: '[name]-[hash].cjs'
     }
   ],
-  external: ['tiny-invariant']
+  external: ['react', 'react/jsx-runtime', 'vue', /^node:/]
 })
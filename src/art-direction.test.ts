@@ -0,0 +1,204 @@
+import { describe, it, expect } from 'vitest'
+
+import { getArtDirectedSources } from './art-direction'
+import { getResponsiveImageAttributes } from './responsive'
+
+describe('getArtDirectedSources', () => {
+  const project = 'test-project'
+  const tallSrc = 'https://example.com/hero-tall.jpg'
+  const wideSrc = 'https://example.com/hero-wide.jpg'
+
+  describe('sources', () => {
+    it('creates one source per media rule', () => {
+      const result = getArtDirectedSources(project, [
+        {
+          media: '(max-width: 767px)',
+          src: tallSrc,
+          width: 400,
+          aspectRatio: '3:4'
+        },
+        {
+          media: '(min-width: 768px)',
+          src: wideSrc,
+          width: 1200,
+          aspectRatio: '16:9'
+        }
+      ])
+
+      const tall = getResponsiveImageAttributes(project, tallSrc, {
+        width: 400,
+        aspectRatio: '3:4'
+      })
+
+      expect(result.sources).toHaveLength(2)
+      expect(result.sources[0]).toEqual({
+        media: '(max-width: 767px)',
+        srcSet: tall.srcSet,
+        sizes: tall.sizes,
+        width: 400,
+        height: 533
+      })
+      expect(result.sources[1]?.media).toBe('(min-width: 768px)')
+      expect(result.sources[1]?.srcSet).toContain('hero-wide.jpg')
+    })
+
+    it('uses the last rule for the fallback img', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(max-width: 767px)', src: tallSrc, width: 400 },
+        { src: wideSrc, width: 1200 }
+      ])
+
+      expect(result.sources).toHaveLength(1)
+      expect(result.img).toEqual(
+        getResponsiveImageAttributes(project, wideSrc, { width: 1200 })
+      )
+    })
+
+    it('applies shared options to every rule', () => {
+      const result = getArtDirectedSources(
+        project,
+        [
+          { media: '(max-width: 767px)', src: tallSrc },
+          { src: wideSrc, format: 'jpeg' }
+        ],
+        { format: 'avif', deviceBreakpoints: [640, 1280] }
+      )
+
+      expect(result.sources[0]?.srcSet).toContain('format=avif')
+      expect(result.sources[0]?.srcSet).toContain('1280w')
+      expect(result.img.src).toContain('format=jpeg')
+    })
+
+    it('uses the src as srcSet in non-responsive mode', () => {
+      const result = getArtDirectedSources(project, [
+        {
+          media: '(max-width: 767px)',
+          src: tallSrc,
+          width: 400,
+          responsive: false
+        },
+        { src: wideSrc }
+      ])
+
+      expect(result.sources[0]?.srcSet).toContain('width=400')
+      expect(result.sources[0]?.sizes).toBeUndefined()
+    })
+  })
+
+  describe('validation', () => {
+    it('throws error when rules is empty', () => {
+      expect(() => getArtDirectedSources(project, [])).toThrow(
+        'rules must contain at least one rule.'
+      )
+    })
+
+    it('throws error when a rule other than the last omits media', () => {
+      expect(() =>
+        getArtDirectedSources(project, [
+          { src: tallSrc },
+          { media: '(min-width: 768px)', src: wideSrc }
+        ])
+      ).toThrow('Only the last art direction rule can omit media.')
+    })
+
+    it('throws error for empty media', () => {
+      expect(() =>
+        getArtDirectedSources(project, [{ media: ' ', src: tallSrc }])
+      ).toThrow('Art direction media must not be empty.')
+    })
+
+    it('accepts min-width cascades from the widest viewport', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(min-width: 1024px)', src: wideSrc },
+        { media: '(min-width: 768px)', src: wideSrc },
+        { src: tallSrc }
+      ])
+
+      expect(result.sources.map((source) => source.media)).toEqual([
+        '(min-width: 1024px)',
+        '(min-width: 768px)'
+      ])
+    })
+
+    it('accepts max-width cascades from the narrowest viewport', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(max-width: 479px)', src: tallSrc },
+        { media: '(max-width: 1023px)', src: tallSrc },
+        { src: wideSrc }
+      ])
+
+      expect(result.sources).toHaveLength(2)
+    })
+
+    it('accepts rules in any order when they do not overlap', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(min-width: 768px)', src: wideSrc },
+        { media: '(max-width: 767px)', src: tallSrc }
+      ])
+
+      expect(result.sources).toHaveLength(2)
+    })
+
+    it('throws error for rules covered by an earlier rule', () => {
+      expect(() =>
+        getArtDirectedSources(project, [
+          { media: '(min-width: 768px)', src: wideSrc },
+          { media: '(min-width: 1024px)', src: wideSrc }
+        ])
+      ).toThrow(
+        'Art direction media "(min-width: 1024px)" can never match, because "(min-width: 768px)" comes first and covers it.'
+      )
+    })
+
+    it('throws error for rules that contradict themselves', () => {
+      expect(() =>
+        getArtDirectedSources(project, [
+          {
+            media: '(min-width: 1024px) and (max-width: 767px)',
+            src: wideSrc
+          },
+          { src: tallSrc }
+        ])
+      ).toThrow(
+        'Art direction media "(min-width: 1024px) and (max-width: 767px)" can never match, because its minimum width is larger than its maximum width.'
+      )
+    })
+
+    it('detects covered ranges combined with and', () => {
+      expect(() =>
+        getArtDirectedSources(project, [
+          { media: '(max-width: 1200px)', src: tallSrc },
+          { media: '(min-width: 768px) and (max-width: 900px)', src: wideSrc },
+          { media: '(min-width: 1000px)', src: wideSrc }
+        ])
+      ).toThrow(
+        'Art direction media "(min-width: 768px) and (max-width: 900px)" can never match'
+      )
+    })
+
+    it('accepts ranges combined with and', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(max-width: 767px)', src: tallSrc },
+        {
+          media: 'screen and (min-width: 768px) and (max-width: 1023px)',
+          src: wideSrc
+        },
+        { media: '(min-width: 64em)', src: wideSrc }
+      ])
+
+      expect(result.sources).toHaveLength(3)
+    })
+
+    it('passes other media queries through unchecked', () => {
+      const result = getArtDirectedSources(project, [
+        { media: '(orientation: portrait)', src: tallSrc },
+        { media: '(orientation: landscape)', src: wideSrc }
+      ])
+
+      expect(result.sources.map((source) => source.media)).toEqual([
+        '(orientation: portrait)',
+        '(orientation: landscape)'
+      ])
+    })
+  })
+})
@@ -0,0 +1,259 @@
+import { InvalidOptionError } from './errors'
+import { withoutUndefined } from './object-utils'
+import {
+  getResponsiveImageAttributes,
+  type ResponsiveImageAttributes,
+  type ResponsiveImageOptions
+} from './responsive'
+
+/**
+ * A single crop of the image and the viewports it is shown on
+ */
+export interface ArtDirectionRule extends ResponsiveImageOptions {
+  /**
+   * The media query the crop is shown for, such as '(max-width: 767px)'.
+   * Only the last rule may omit it, making it the default crop.
+   */
+  media?: string
+  /**
+   * The original image URL for this crop
+   */
+  src: string
+}
+
+/**
+ * Attributes for a single source element with a media condition
+ */
+export interface ArtDirectedSource {
+  /**
+   * The height attribute value, when known
+   */
+  height?: number
+  /**
+   * The media attribute value
+   */
+  media: string
+  /**
+   * The sizes attribute value (not present for non-responsive mode)
+   */
+  sizes?: string
+  /**
+   * The srcset attribute value with image candidates for this crop
+   */
+  srcSet: string
+  /**
+   * The width attribute value, when known
+   */
+  width?: number
+}
+
+/**
+ * Generated attributes for an art-directed picture element
+ */
+export interface ArtDirectedAttributes {
+  /**
+   * Attributes for the fallback img element, built from the last rule
+   */
+  img: ResponsiveImageAttributes
+  /**
+   * Source elements in the order of the rules
+   */
+  sources: ArtDirectedSource[]
+}
+
+interface ViewportRange {
+  max: number
+  min: number
+}
+
+const mediaFeaturePattern =
+  /^\(\s*(min|max)-width\s*:\s*(\d+(?:\.\d+)?)(px|em|rem)\s*\)$/i
+
+/**
+ * Reads the viewport width range a media query applies to.
+ * Returns null for queries that use anything other than min-width and
+ * max-width, since whether they match cannot be decided from the width alone.
+ */
+function getViewportRange(media: string): ViewportRange | null {
+  const range: ViewportRange = { max: Infinity, min: 0 }
+  const conditions = media
+    .trim()
+    .replace(/^(only\s+)?(all|screen)\s+and\s+/i, '')
+    .split(/\s+and\s+/i)
+
+  for (const condition of conditions) {
+    const match = condition.trim().match(mediaFeaturePattern)
+
+    if (!match?.[1] || !match[2] || !match[3]) {
+      return null
+    }
+
+    const value =
+      match[3].toLowerCase() === 'px' ? Number(match[2]) : Number(match[2]) * 16
+
+    if (match[1].toLowerCase() === 'min') {
+      range.min = Math.max(range.min, value)
+    } else {
+      range.max = Math.min(range.max, value)
+    }
+  }
+
+  return range
+}
+
+/**
+ * Checks that every media rule can match, throwing on the first problem.
+ * A rule whose minimum width is above its maximum width matches no viewport.
+ * The browser uses the first matching source, so a rule whose viewport range
+ * is fully covered by an earlier rule is never shown either.
+ */
+function validateMediaRules(rules: ArtDirectionRule[]): void {
+  const ranges: { index: number; media: string; range: ViewportRange }[] = []
+
+  rules.forEach((rule, index) => {
+    if (rule.media === undefined) {
+      if (index !== rules.length - 1) {
+        throw new InvalidOptionError(
+          'INVALID_ART_DIRECTION',
+          'Only the last art direction rule can omit media.',
+          { option: `rules[${index}].media` }
+        )
+      }
+
+      return
+    }
+
+    if (!rule.media.trim()) {
+      throw new InvalidOptionError(
+        'INVALID_ART_DIRECTION',
+        'Art direction media must not be empty.',
+        { option: `rules[${index}].media`, value: rule.media }
+      )
+    }
+
+    const range = getViewportRange(rule.media)
+
+    if (range && range.min > range.max) {
+      throw new InvalidOptionError(
+        'INVALID_ART_DIRECTION',
+        `Art direction media "${rule.media}" can never match, because its minimum width is larger than its maximum width.`,
+        { option: `rules[${index}].media`, value: rule.media }
+      )
+    }
+
+    if (range) {
+      ranges.push({ index, media: rule.media, range })
+    }
+  })
+
+  ranges.forEach((current, index) => {
+    const covering = ranges
+      .slice(0, index)
+      .find(
+        ({ range }) =>
+          range.min <= current.range.min && current.range.max <= range.max
+      )
+
+    if (covering) {
+      throw new InvalidOptionError(
+        'INVALID_ART_DIRECTION',
+        `Art direction media "${current.media}" can never match, because "${covering.media}" comes first and covers it.`,
+        { option: `rules[${current.index}].media`, value: current.media }
+      )
+    }
+  })
+}
+
+/**
+ * Generates attributes for a picture element that shows a different crop
+ * (or a different image) per viewport.
+ *
+ * Each rule is computed with the same breakpoint logic as
+ * getResponsiveImageAttributes. Rules with a media query become source
+ * elements in the given order, and the last rule becomes the fallback img.
+ *
+ * Like in the picture element, the first matching rule wins, so both
+ * min-width and max-width cascades work. Media queries made of min-width and
+ * max-width conditions are checked so that no rule contradicts itself or is
+ * fully covered by an earlier one. Other media queries are passed through
+ * unchecked.
+ *
+ * @param project - The Pixel Puppy project identifier
+ * @param rules - The crops, each with its media query and options
+ * @param options - Responsive image options shared by every rule
+ * @returns The ordered sources and the fallback img attributes
+ *
+ * @throws {InvalidOptionError} INVALID_ART_DIRECTION when rules is empty
+ * @throws {InvalidOptionError} INVALID_ART_DIRECTION when a rule other than the last has no media query
+ * @throws {InvalidOptionError} INVALID_ART_DIRECTION when a media rule has a minimum width above its maximum width and can never match
+ * @throws {InvalidOptionError} INVALID_ART_DIRECTION when a media rule is fully covered by an earlier one and can never match
+ * @throws {PixelPuppyError} Any error of getResponsiveImageAttributes for a rule
+ *
+ * @example
+ * const picture = getArtDirectedSources('my-project', [
+ *   { media: '(max-width: 767px)', src: '/hero-tall.jpg', width: 400, aspectRatio: '3:4' },
+ *   { media: '(min-width: 768px)', src: '/hero-wide.jpg', width: 1200, aspectRatio: '16:9' }
+ * ])
+ * // Returns: {
+ * //   sources: [
+ * //     { media: '(max-width: 767px)', srcSet: '...', sizes: '...', width: 400, height: 533 },
+ * //     { media: '(min-width: 768px)', srcSet: '...', sizes: '...', width: 1200, height: 675 }
+ * //   ],
+ * //   img: { src: '...', srcSet: '...', sizes: '...', width: 1200, height: 675 }
+ * // }
+ */
+export function getArtDirectedSources(
+  project: string,
+  rules: ArtDirectionRule[],
+  options: ResponsiveImageOptions = {}
+): ArtDirectedAttributes {
+  if (rules.length === 0) {
+    throw new InvalidOptionError(
+      'INVALID_ART_DIRECTION',
+      'rules must contain at least one rule.',
+      { option: 'rules', value: rules }
+    )
+  }
+
+  validateMediaRules(rules)
+
+  const attributesByRule = rules.map(({ media, src, ...ruleOptions }) => ({
+    media,
+    attributes: getResponsiveImageAttributes(project, src, {
+      ...withoutUndefined(options),
+      ...withoutUndefined(ruleOptions)
+    })
+  }))
+
+  const fallback = attributesByRule[attributesByRule.length - 1]
+
+  if (!fallback) {
+    throw new InvalidOptionError(
+      'INVALID_ART_DIRECTION',
+      'rules must contain at least one rule.',
+      { option: 'rules', value: rules }
+    )
+  }
+
+  const sources: ArtDirectedSource[] = []
+
+  for (const { media, attributes } of attributesByRule) {
+    if (media === undefined) {
+      continue
+    }
+
+    sources.push({
+      media,
+      // Non-responsive mode has no srcset, so the single URL stands in for it
+      srcSet: attributes.srcSet || attributes.src,
+      ...(attributes.sizes ? { sizes: attributes.sizes } : {}),
+      ...(attributes.width ? { width: attributes.width } : {}),
+      ...(attributes.height ? { height: attributes.height } : {})
+    })
+  }
+
+  return {
+    img: fallback.attributes,
+    sources
+  }
+}
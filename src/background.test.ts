@@ -0,0 +1,172 @@
+import { describe, it, expect } from 'vitest'
+
+import { getBackgroundImageStyles } from './background'
+import { buildImageUrl } from './urls'
+
+describe('getBackgroundImageStyles', () => {
+  const project = 'test-project'
+  const src = 'https://example.com/hero.jpg'
+
+  const url = (format: 'avif' | 'webp', width: number) =>
+    buildImageUrl(project, src, { format, width })
+
+  describe('image-set', () => {
+    it('offers every format at every density', () => {
+      const result = getBackgroundImageStyles(project, src, { width: 800 })
+
+      expect(result.style).toEqual({
+        backgroundImage: `image-set(url("${url('avif', 800)}") type("image/avif") 1x, url("${url('avif', 1600)}") type("image/avif") 2x, url("${url('webp', 800)}") type("image/webp") 1x, url("${url('webp', 1600)}") type("image/webp") 2x)`
+      })
+    })
+
+    it('uses the given formats and densities', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        width: 400,
+        formats: ['webp'],
+        densities: [3, 1]
+      })
+
+      expect(result.style.backgroundImage).toBe(
+        `image-set(url("${url('webp', 400)}") type("image/webp") 1x, url("${url('webp', 1200)}") type("image/webp") 3x)`
+      )
+    })
+
+    it('defaults the inline width to the largest breakpoint up to 1920', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        deviceBreakpoints: [640, 1280]
+      })
+
+      expect(result.style.backgroundImage).toContain(
+        `url("${url('avif', 1280)}") type("image/avif") 1x`
+      )
+    })
+
+    it('does not default the inline width above 1920', () => {
+      const result = getBackgroundImageStyles(project, src)
+
+      expect(result.style.backgroundImage).toBe(
+        `image-set(url("${url('avif', 1920)}") type("image/avif") 1x, url("${url('avif', 3840)}") type("image/avif") 2x, url("${url('webp', 1920)}") type("image/webp") 1x, url("${url('webp', 3840)}") type("image/webp") 2x)`
+      )
+    })
+
+    it('caps every candidate at the intrinsic width', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        width: 800,
+        formats: ['webp'],
+        intrinsicWidth: 1200
+      })
+
+      expect(result.style.backgroundImage).toBe(
+        `image-set(url("${url('webp', 800)}") type("image/webp") 1x, url("${url('webp', 1200)}") type("image/webp") 1.5x)`
+      )
+    })
+
+    it('applies transformation options to every candidate', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        width: 800,
+        aspectRatio: '16:9',
+        blur: 5,
+        quality: 40
+      })
+
+      const urls = result.style.backgroundImage.match(/url\("[^"]+"\)/g)
+
+      expect(urls).toHaveLength(4)
+      for (const candidate of urls ?? []) {
+        expect(candidate).toContain('aspectRatio=16%3A9')
+        expect(candidate).toContain('blur=5')
+        expect(candidate).toContain('quality=40')
+      }
+    })
+  })
+
+  describe('css', () => {
+    it('returns declarations with a url() fallback without a selector', () => {
+      const result = getBackgroundImageStyles(project, src, { width: 800 })
+
+      expect(result.css).toBe(
+        `background-image: url("${url('webp', 800)}"); background-image: ${result.style.backgroundImage}`
+      )
+    })
+
+    it('adds a media query per smaller breakpoint with a selector', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        selector: '.hero',
+        formats: ['webp'],
+        densities: [1],
+        deviceBreakpoints: [640, 1920, 1280]
+      })
+
+      expect(result.css).toBe(
+        [
+          '.hero {',
+          `  background-image: url("${url('webp', 1920)}");`,
+          `  background-image: image-set(url("${url('webp', 1920)}") type("image/webp") 1x);`,
+          '}',
+          '',
+          '@media (max-width: 1280px) {',
+          '  .hero {',
+          `    background-image: url("${url('webp', 1280)}");`,
+          `    background-image: image-set(url("${url('webp', 1280)}") type("image/webp") 1x);`,
+          '  }',
+          '}',
+          '',
+          '@media (max-width: 640px) {',
+          '  .hero {',
+          `    background-image: url("${url('webp', 640)}");`,
+          `    background-image: image-set(url("${url('webp', 640)}") type("image/webp") 1x);`,
+          '  }',
+          '}'
+        ].join('\n')
+      )
+    })
+
+    it('caps the media query candidates at the intrinsic width', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        selector: '.hero',
+        formats: ['webp'],
+        deviceBreakpoints: [640, 1280, 1920],
+        intrinsicHeight: 900,
+        aspectRatio: '16:9'
+      })
+      const widths = result.css.match(/width=\d+/g) ?? []
+
+      expect(widths).toContain('width=1600')
+      expect(widths.every((width) => Number(width.slice(6)) <= 1600)).toBe(true)
+    })
+
+    it('uses generated breakpoints', () => {
+      const result = getBackgroundImageStyles(project, src, {
+        selector: '.hero',
+        breakpoints: { min: 400, max: 1200, step: 400 }
+      })
+
+      expect(result.css).toContain('@media (max-width: 800px)')
+      expect(result.css).toContain('@media (max-width: 400px)')
+      expect(result.css).not.toContain('@media (max-width: 1200px)')
+    })
+  })
+
+  describe('validation', () => {
+    it('throws error when formats is empty', () => {
+      expect(() =>
+        getBackgroundImageStyles(project, src, { formats: [] })
+      ).toThrow('formats must contain at least one format.')
+    })
+
+    it('throws error when deviceBreakpoints is empty', () => {
+      expect(() =>
+        getBackgroundImageStyles(project, src, { deviceBreakpoints: [] })
+      ).toThrow('deviceBreakpoints must contain at least one width.')
+    })
+
+    it.each([[[]], [[0]], [[1, -2]]])(
+      'throws error for densities %j',
+      (densities) => {
+        expect(() =>
+          getBackgroundImageStyles(project, src, { densities })
+        ).toThrow('Densities must be positive numbers.')
+      }
+    )
+  })
+})
@@ -0,0 +1,255 @@
+import { generateBreakpoints, type BreakpointRange } from './breakpoints'
+import { getDefaultClient } from './client'
+import {
+  capWidths,
+  getAspectRatioValue,
+  getSourceWidthLimit
+} from './dimensions'
+import { InvalidOptionError } from './errors'
+import { mimeTypes, type ImageFormat } from './formats'
+import {
+  defaultDensities,
+  defaultDeviceBreakpoints,
+  validateDensities
+} from './responsive'
+import { createImageUrl, type TransformationOptions } from './urls'
+
+/**
+ * Default formats for background images, from most to least preferred
+ */
+const defaultBackgroundFormats: ImageFormat[] = ['avif', 'webp']
+
+/**
+ * The widest default inline style width, a full HD viewport. Larger
+ * breakpoints would make every inline background request huge images.
+ */
+const defaultStyleWidth = 1920
+
+/**
+ * Options for generating background image styles
+ */
+export interface BackgroundImageOptions
+  extends Omit<TransformationOptions, 'format' | 'height' | 'width'> {
+  /**
+   * Generates the viewport breakpoints from a width range instead of using
+   * deviceBreakpoints. Takes precedence over deviceBreakpoints.
+   */
+  breakpoints?: BreakpointRange
+  /**
+   * Pixel densities to offer in every image-set()
+   * @default [1, 2]
+   */
+  densities?: readonly number[]
+  /**
+   * Viewport widths to generate a media query for. The background is assumed
+   * to span the viewport, so each breakpoint is also the image width.
+   * @default [480, 640, 750, 828, 1080, 1200, 1920, 2048, 3840]
+   */
+  deviceBreakpoints?: readonly number[]
+  /**
+   * The formats to offer, from most to least preferred.
+   * The last format is also used for the plain url() fallback.
+   * @default ['avif', 'webp']
+   */
+  formats?: ImageFormat[]
+  /**
+   * The CSS selector the rules apply to. Media queries need a selector, so
+   * without one css only holds the declarations for width.
+   *
+   * @example
+   * getBackgroundImageStyles('project', '/images/hero.jpg', { selector: '.hero' })
+   */
+  selector?: string
+  /**
+   * The rendered width of the element in pixels, used for the inline style
+   * (which cannot contain media queries). Defaults to the largest breakpoint,
+   * up to 1920.
+   */
+  width?: number
+}
+
+/**
+ * Inline background styles, usable as a React or Vue style object
+ */
+export interface BackgroundImageStyle {
+  backgroundImage: string
+}
+
+/**
+ * Generated background image styles
+ */
+export interface BackgroundImageStyles {
+  /**
+   * A stylesheet with one rule per breakpoint when a selector is given,
+   * otherwise the declarations for width
+   */
+  css: string
+  /**
+   * Inline styles for width
+   */
+  style: BackgroundImageStyle
+}
+
+/**
+ * Generates CSS background styles with an image-set() of every format and
+ * pixel density.
+ *
+ * Each image-set() lists the formats in order of preference with a type() so
+ * browsers skip the ones they cannot decode, and every format at each
+ * density. The stylesheet starts with the largest breakpoint and adds a
+ * max-width media query for each smaller one, preceded by a plain url()
+ * fallback for browsers without image-set() support. With intrinsicWidth or
+ * intrinsicHeight, no candidate is wider than the source.
+ *
+ * @param project - The Pixel Puppy project identifier
+ * @param src - The original image URL
+ * @param options - Background options plus any transformation options
+ * @returns The CSS string and the inline style object
+ *
+ * @throws {InvalidOptionError} INVALID_FORMATS when formats is empty
+ * @throws {InvalidOptionError} INVALID_DENSITIES when densities is empty or contains a non-positive number
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when deviceBreakpoints is empty or breakpoints is not a valid breakpoint range
+ *
+ * @example
+ * const background = getBackgroundImageStyles('my-project', 'https://example.com/hero.jpg', {
+ *   selector: '.hero',
+ *   deviceBreakpoints: [640, 1280, 1920]
+ * })
+ * // background.css:
+ * // .hero {
+ * //   background-image: url("...&width=1920");
+ * //   background-image: image-set(url("...format=avif&width=1920") type("image/avif") 1x, ...);
+ * // }
+ * //
+ * // @media (max-width: 1280px) {
+ * //   .hero { ... }
+ * // }
+ *
+ * @example
+ * // Inline styles for an element that is 800px wide
+ * const { style } = getBackgroundImageStyles('my-project', 'https://example.com/hero.jpg', {
+ *   width: 800
+ * })
+ * // <div style={style} />
+ */
+export function getBackgroundImageStyles(
+  project: string,
+  src: string,
+  options: BackgroundImageOptions = {}
+): BackgroundImageStyles {
+  return getDefaultClient(project).background(src, options)
+}
+
+/**
+ * Generates the styles behind getBackgroundImageStyles and a client's
+ * background()
+ */
+export function createBackgroundImageStyles(
+  project: string,
+  src: string,
+  options: BackgroundImageOptions = {}
+): BackgroundImageStyles {
+  const {
+    breakpoints,
+    densities = defaultDensities,
+    deviceBreakpoints = defaultDeviceBreakpoints,
+    formats = defaultBackgroundFormats,
+    selector,
+    width,
+    ...transformationOptions
+  } = options
+
+  if (formats.length === 0) {
+    throw new InvalidOptionError(
+      'INVALID_FORMATS',
+      'formats must contain at least one format.',
+      { option: 'formats', value: formats }
+    )
+  }
+
+  validateDensities(densities)
+
+  const widths = Array.from(
+    new Set(breakpoints ? generateBreakpoints(breakpoints) : deviceBreakpoints)
+  ).sort((a, b) => a - b)
+  const largestWidth = widths[widths.length - 1]
+
+  if (!largestWidth) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      'deviceBreakpoints must contain at least one width.',
+      { option: 'deviceBreakpoints', value: deviceBreakpoints }
+    )
+  }
+
+  const sortedDensities = Array.from(new Set(densities)).sort((a, b) => a - b)
+  const fallbackFormat = formats[formats.length - 1]
+
+  const { aspectRatio } = transformationOptions
+  const maxWidth = getSourceWidthLimit(
+    transformationOptions,
+    aspectRatio !== undefined ? getAspectRatioValue(aspectRatio) : undefined
+  )
+
+  const buildUrl = (format: ImageFormat | undefined, imageWidth: number) =>
+    createImageUrl(project, src, {
+      ...transformationOptions,
+      format,
+      width: maxWidth ? Math.min(imageWidth, maxWidth) : imageWidth
+    })
+
+  const getImageSet = (imageWidth: number) => {
+    // Densities the source is too small for collapse into one candidate at
+    // the source width, described by the density it actually provides
+    const candidateWidths = capWidths(
+      sortedDensities.map((density) => Math.round(imageWidth * density)),
+      maxWidth
+    )
+    const candidates = formats.flatMap((format) =>
+      candidateWidths.map((candidateWidth) => {
+        const url = buildUrl(format, candidateWidth)
+        const density = Math.round((candidateWidth / imageWidth) * 100) / 100
+        return `url("${url}") type("${mimeTypes[format]}") ${density}x`
+      })
+    )
+
+    return `image-set(${candidates.join(', ')})`
+  }
+
+  const getDeclarations = (imageWidth: number) => [
+    `background-image: url("${buildUrl(fallbackFormat, imageWidth)}")`,
+    `background-image: ${getImageSet(imageWidth)}`
+  ]
+
+  const styleWidth = width ?? Math.min(largestWidth, defaultStyleWidth)
+  const style: BackgroundImageStyle = {
+    backgroundImage: getImageSet(styleWidth)
+  }
+
+  if (!selector) {
+    return { css: getDeclarations(styleWidth).join('; '), style }
+  }
+
+  const getRule = (imageWidth: number, indent: string) =>
+    [
+      `${indent}${selector} {`,
+      ...getDeclarations(imageWidth).map(
+        (declaration) => `${indent}  ${declaration};`
+      ),
+      `${indent}}`
+    ].join('\n')
+
+  // Smaller breakpoints come later so their media queries win
+  const mediaRules = widths
+    .slice(0, -1)
+    .reverse()
+    .map(
+      (breakpoint) =>
+        `@media (max-width: ${breakpoint}px) {\n${getRule(breakpoint, '  ')}\n}`
+    )
+
+  return {
+    css: [getRule(largestWidth, ''), ...mediaRules].join('\n\n'),
+    style
+  }
+}
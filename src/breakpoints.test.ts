@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest'
+
+import { generateBreakpoints } from './breakpoints'
+
+describe('generateBreakpoints', () => {
+  describe('steps', () => {
+    it('spreads the widths geometrically', () => {
+      expect(generateBreakpoints({ min: 320, max: 1920, steps: 5 })).toEqual([
+        320, 501, 784, 1227, 1920
+      ])
+    })
+
+    it('splits the range into 10 widths by default', () => {
+      const result = generateBreakpoints({ min: 100, max: 2000 })
+
+      expect(result).toHaveLength(10)
+      expect(result[0]).toBe(100)
+      expect(result[9]).toBe(2000)
+    })
+
+    it('returns only the max width for a single step', () => {
+      expect(generateBreakpoints({ min: 320, max: 1920, steps: 1 })).toEqual([
+        1920
+      ])
+    })
+
+    it('deduplicates widths that round to the same pixel', () => {
+      expect(generateBreakpoints({ min: 100, max: 102, steps: 10 })).toEqual([
+        100, 101, 102
+      ])
+    })
+
+    it('returns a single width when min equals max', () => {
+      expect(generateBreakpoints({ min: 640, max: 640 })).toEqual([640])
+    })
+  })
+
+  describe('step', () => {
+    it('adds a fixed number of pixels', () => {
+      expect(generateBreakpoints({ min: 400, max: 1200, step: 200 })).toEqual([
+        400, 600, 800, 1000, 1200
+      ])
+    })
+
+    it('ends with the max width', () => {
+      expect(generateBreakpoints({ min: 400, max: 1000, step: 250 })).toEqual([
+        400, 650, 900, 1000
+      ])
+    })
+  })
+
+  describe('growth', () => {
+    it('grows each width by a percentage', () => {
+      expect(generateBreakpoints({ min: 100, max: 200, growth: 25 })).toEqual([
+        100, 125, 156, 195, 200
+      ])
+    })
+  })
+
+  describe('validation', () => {
+    it.each([
+      [{ min: 0, max: 100 }, 'Breakpoint min must be a positive number.'],
+      [{ min: 100, max: NaN }, 'Breakpoint max must be a positive number.'],
+      [{ min: 200, max: 100 }, 'Breakpoint min must not be larger than max.'],
+      [
+        { min: 100, max: 200, steps: 2.5 },
+        'Breakpoint steps must be a positive whole number.'
+      ],
+      [
+        { min: 100, max: 200, step: -10 },
+        'Breakpoint step must be a positive number.'
+      ],
+      [
+        { min: 100, max: 200, growth: 0 },
+        'Breakpoint growth must be a positive number.'
+      ],
+      [
+        { min: 100, max: 200, steps: 4, step: 10 },
+        'Use only one of steps, step and growth.'
+      ]
+    ])('throws error for %j', (range, message) => {
+      expect(() => generateBreakpoints(range)).toThrow(message)
+    })
+
+    it('throws error when the range produces too many widths', () => {
+      expect(() =>
+        generateBreakpoints({ min: 16, max: 3840, step: 1 })
+      ).toThrow(
+        'Breakpoint range produces more than 50 widths. Use a larger step or growth.'
+      )
+      expect(() =>
+        generateBreakpoints({ min: 16, max: 3840, steps: 51 })
+      ).toThrow('Breakpoint range produces more than 50 widths.')
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import { InvalidOptionError } from './errors'
+
+/**
+ * Settings for generating breakpoints across a width range.
+ * Set at most one of steps, step and growth; without any of them the range
+ * is split into 10 widths.
+ */
+export interface BreakpointRange {
+  /**
+   * Grows each width by this percentage over the previous one, e.g. 20 for
+   * widths that are 20% apart
+   */
+  growth?: number
+  /**
+   * The largest width in pixels
+   */
+  max: number
+  /**
+   * The smallest width in pixels
+   */
+  min: number
+  /**
+   * Adds this many pixels to each width over the previous one
+   */
+  step?: number
+  /**
+   * The maximum number of widths, spread so each is the same percentage
+   * larger than the previous one. 1 returns only max.
+   */
+  steps?: number
+}
+
+const defaultSteps = 10
+
+/**
+ * The most widths a range may produce, which keeps the number of image
+ * variants bounded
+ */
+export const maxBreakpointCount = 50
+
+function validatePositive(
+  option: keyof BreakpointRange,
+  value: number | undefined
+): void {
+  if (value !== undefined && !(value > 0 && Number.isFinite(value))) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      `Breakpoint ${option} must be a positive number.`,
+      { option, value }
+    )
+  }
+}
+
+/**
+ * Generates the list of widths between min and max.
+ *
+ * Widths are rounded to whole pixels and deduplicated. They always include
+ * max, and min unless steps is 1, which leaves room for max only. The result
+ * can be passed as deviceBreakpoints, or set as the breakpoints option of
+ * getResponsiveImageAttributes.
+ *
+ * @param range - The width range and how to step through it
+ * @returns The widths in ascending order
+ *
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when min or max is not a positive number, or min is larger than max
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when steps is not a positive whole number
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when step or growth is not a positive number
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when more than one of steps, step and growth is set
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when the range produces more than 50 widths
+ *
+ * @example
+ * generateBreakpoints({ min: 320, max: 1920, steps: 5 })
+ * // Returns: [320, 501, 784, 1227, 1920]
+ *
+ * @example
+ * generateBreakpoints({ min: 400, max: 1200, step: 200 })
+ * // Returns: [400, 600, 800, 1000, 1200]
+ *
+ * @example
+ * generateBreakpoints({ min: 100, max: 200, growth: 25 })
+ * // Returns: [100, 125, 156, 195, 200]
+ */
+export function generateBreakpoints(range: BreakpointRange): number[] {
+  const { growth, max, min, step, steps } = range
+
+  validatePositive('min', min)
+  validatePositive('max', max)
+
+  if (min > max) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      'Breakpoint min must not be larger than max.',
+      { option: 'min', value: min }
+    )
+  }
+
+  if (steps !== undefined && !(Number.isInteger(steps) && steps > 0)) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      'Breakpoint steps must be a positive whole number.',
+      { option: 'steps', value: steps }
+    )
+  }
+
+  validatePositive('step', step)
+  validatePositive('growth', growth)
+
+  if ([steps, step, growth].filter((value) => value !== undefined).length > 1) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      'Use only one of steps, step and growth.'
+    )
+  }
+
+  const widths: number[] = [min]
+
+  if (step !== undefined) {
+    for (let width = min + step; width < max; width += step) {
+      widths.push(width)
+
+      if (widths.length > maxBreakpointCount) {
+        break
+      }
+    }
+  } else if (growth !== undefined) {
+    for (
+      let width = min * (1 + growth / 100);
+      width < max;
+      width *= 1 + growth / 100
+    ) {
+      widths.push(width)
+
+      if (widths.length > maxBreakpointCount) {
+        break
+      }
+    }
+  } else {
+    const count = steps ?? defaultSteps
+
+    if (count === 1) {
+      return [Math.round(max)]
+    }
+
+    // Spread the widths geometrically, so every width is the same percentage
+    // larger than the previous one
+    for (let i = 1; i < count - 1; i++) {
+      widths.push(min * (max / min) ** (i / (count - 1)))
+    }
+  }
+
+  widths.push(max)
+
+  const breakpoints = Array.from(
+    new Set(widths.map((width) => Math.round(width)))
+  )
+
+  if (breakpoints.length > maxBreakpointCount) {
+    throw new InvalidOptionError(
+      'INVALID_BREAKPOINTS',
+      `Breakpoint range produces more than ${maxBreakpointCount} widths. Use a larger step or growth.`,
+      { value: breakpoints.length }
+    )
+  }
+
+  return breakpoints
+}
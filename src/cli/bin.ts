@@ -0,0 +1,16 @@
+import { readFile } from 'node:fs/promises'
+
+import { run } from './run'
+
+run(process.argv.slice(2), {
+  cwd: process.cwd(),
+  env: process.env,
+  readFile: (path) =>
+    readFile(path, 'utf8').catch((error: NodeJS.ErrnoException) =>
+      error.code === 'ENOENT' ? null : Promise.reject(error)
+    ),
+  stderr: (text) => process.stderr.write(text),
+  stdout: (text) => process.stdout.write(text)
+}).then((exitCode) => {
+  process.exitCode = exitCode
+})
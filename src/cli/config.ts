@@ -0,0 +1,107 @@
+import type { PixelPuppyClientOptions } from '../client'
+import type { ImageFormat } from '../formats'
+import { withoutUndefined } from '../object-utils'
+import type { UrlStyle } from '../path-urls'
+
+/**
+ * Name of the config file looked up in the working directory
+ */
+export const configFileName = 'pixel-puppy.config.json'
+
+/**
+ * Defaults the CLI reads from the config file and environment variables
+ */
+export type CliDefaults = Partial<
+  Pick<
+    PixelPuppyClientOptions,
+    'baseUrl' | 'endpoint' | 'format' | 'project' | 'quality' | 'urlStyle'
+  >
+>
+
+/**
+ * Reads a file and resolves to its contents, or to null when it does not exist
+ */
+export type ReadFile = (path: string) => Promise<string | null>
+
+/**
+ * Reads defaults from environment variables:
+ * PIXEL_PUPPY_PROJECT, PIXEL_PUPPY_BASE_URL, PIXEL_PUPPY_ENDPOINT,
+ * PIXEL_PUPPY_FORMAT, PIXEL_PUPPY_QUALITY and PIXEL_PUPPY_URL_STYLE.
+ */
+export function getEnvDefaults(
+  env: Record<string, string | undefined>
+): CliDefaults {
+  const defaults: CliDefaults = {}
+
+  if (env.PIXEL_PUPPY_PROJECT) {
+    defaults.project = env.PIXEL_PUPPY_PROJECT
+  }
+
+  if (env.PIXEL_PUPPY_BASE_URL) {
+    defaults.baseUrl = env.PIXEL_PUPPY_BASE_URL
+  }
+
+  if (env.PIXEL_PUPPY_ENDPOINT) {
+    defaults.endpoint = env.PIXEL_PUPPY_ENDPOINT
+  }
+
+  if (env.PIXEL_PUPPY_FORMAT) {
+    defaults.format = env.PIXEL_PUPPY_FORMAT as ImageFormat
+  }
+
+  if (env.PIXEL_PUPPY_QUALITY) {
+    defaults.quality = Number(env.PIXEL_PUPPY_QUALITY)
+  }
+
+  if (env.PIXEL_PUPPY_URL_STYLE) {
+    defaults.urlStyle = env.PIXEL_PUPPY_URL_STYLE as UrlStyle
+  }
+
+  return defaults
+}
+
+/**
+ * Reads defaults from a JSON config file.
+ *
+ * An explicitly requested file must exist; the default config file in the
+ * working directory is optional.
+ */
+export async function getFileDefaults(
+  readFile: ReadFile,
+  path: string,
+  required: boolean
+): Promise<CliDefaults> {
+  const contents = await readFile(path)
+
+  if (contents === null) {
+    if (required) {
+      throw new Error(`Config file "${path}" not found.`)
+    }
+
+    return {}
+  }
+
+  let parsed: unknown
+
+  try {
+    parsed = JSON.parse(contents)
+  } catch {
+    throw new Error(`Config file "${path}" is not valid JSON.`)
+  }
+
+  if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+    throw new Error(`Config file "${path}" must contain a JSON object.`)
+  }
+
+  const { baseUrl, endpoint, format, project, quality, urlStyle } =
+    parsed as CliDefaults
+
+  return withoutUndefined({
+    baseUrl,
+    endpoint,
+    format,
+    project,
+    quality,
+    urlStyle
+  })
+}
@@ -0,0 +1,338 @@
+import { describe, it, expect } from 'vitest'
+
+import { buildImageUrl } from '../urls'
+import { run, usage, type CliContext } from './run'
+
+function createContext(
+  options: {
+    env?: Record<string, string | undefined>
+    files?: Record<string, string>
+  } = {}
+) {
+  const output = { stdout: '', stderr: '' }
+
+  const context: CliContext = {
+    cwd: '/app',
+    env: options.env ?? {},
+    readFile: async (path) => options.files?.[path] ?? null,
+    stderr: (text) => {
+      output.stderr += text
+    },
+    stdout: (text) => {
+      output.stdout += text
+    }
+  }
+
+  return { context, output }
+}
+
+describe('run', () => {
+  const source = 'https://example.com/image.jpg'
+
+  describe('help', () => {
+    it('prints usage without a command', async () => {
+      const { context, output } = createContext()
+
+      expect(await run([], context)).toBe(0)
+      expect(output.stdout).toBe(usage)
+    })
+
+    it('prints usage with --help', async () => {
+      const { context, output } = createContext()
+
+      expect(await run(['url', '--help'], context)).toBe(0)
+      expect(output.stdout).toBe(usage)
+    })
+  })
+
+  describe('url', () => {
+    it('prints the transformation URL', async () => {
+      const { context, output } = createContext()
+
+      const exitCode = await run(
+        ['url', 'test-project', source, '--width', '800', '--format', 'png'],
+        context
+      )
+
+      expect(exitCode).toBe(0)
+      expect(output.stdout).toBe(
+        `${buildImageUrl('test-project', source, { width: 800, format: 'png' })}\n`
+      )
+    })
+
+    it('prints JSON output', async () => {
+      const { context, output } = createContext()
+
+      await run(['url', 'test-project', source, '--output', 'json'], context)
+
+      expect(JSON.parse(output.stdout)).toEqual({
+        url: buildImageUrl('test-project', source)
+      })
+    })
+
+    it('prints an escaped img tag for HTML output', async () => {
+      const { context, output } = createContext()
+
+      await run(
+        ['url', 'test-project', source, '--width', '800', '-o', 'html'],
+        context
+      )
+
+      expect(output.stdout).toContain('<img src="https://pixelpuppy.io')
+      expect(output.stdout).toContain('&amp;width=800')
+      expect(output.stdout).toContain('width="800"')
+    })
+
+    it('prints path-style URLs with --url-style', async () => {
+      const { context, output } = createContext()
+
+      await run(['url', 'test-project', source, '--url-style', 'path'], context)
+
+      expect(output.stdout).toBe(
+        `${buildImageUrl('test-project', source, { urlStyle: 'path' })}\n`
+      )
+    })
+
+    it('reports validation errors', async () => {
+      const { context, output } = createContext()
+
+      const exitCode = await run(
+        ['url', 'test-project', source, '--width', 'abc'],
+        context
+      )
+
+      expect(exitCode).toBe(1)
+      expect(output.stderr).toBe('Error: Width must be a number.\n')
+    })
+  })
+
+  describe('srcset', () => {
+    it('prints responsive attributes as JSON', async () => {
+      const { context, output } = createContext()
+
+      await run(['srcset', 'test-project', source, '--sizes', '50vw'], context)
+
+      const attributes = JSON.parse(output.stdout)
+      expect(attributes.sizes).toBe('50vw')
+      expect(attributes.srcSet).toContain('640w')
+    })
+
+    it('prints an img tag for HTML output', async () => {
+      const { context, output } = createContext()
+
+      await run(
+        ['srcset', 'test-project', source, '--width', '800', '-o', 'html'],
+        context
+      )
+
+      expect(output.stdout).toMatch(/^<img src="[^"]+" srcset="[^"]+" /)
+      expect(output.stdout).toContain(
+        'sizes="(min-width: 1024px) 1024px, 100vw"'
+      )
+    })
+
+    it('builds density descriptors with the density strategy', async () => {
+      const { context, output } = createContext()
+
+      await run(
+        [
+          'srcset',
+          'test-project',
+          source,
+          '--width',
+          '64',
+          '--strategy',
+          'density',
+          '--densities',
+          '1,2,3',
+          '-o',
+          'text'
+        ],
+        context
+      )
+
+      expect(output.stdout).toContain('width=192 3x\n')
+      expect(output.stdout).toContain('width=64 1x, ')
+    })
+
+    it('prints only the srcset for text output', async () => {
+      const { context, output } = createContext()
+
+      await run(['srcset', 'test-project', source, '-o', 'text'], context)
+
+      expect(output.stdout).toContain('480w, ')
+      expect(output.stdout).not.toContain('{')
+    })
+  })
+
+  describe('parse', () => {
+    it('prints the parsed URL as JSON', async () => {
+      const { context, output } = createContext()
+      const url = buildImageUrl('test-project', source, { width: 800 })
+
+      expect(await run(['parse', url], context)).toBe(0)
+      expect(JSON.parse(output.stdout)).toEqual({
+        project: 'test-project',
+        sourceUrl: source,
+        options: { format: 'webp', width: 800 }
+      })
+    })
+
+    it('recognises URLs from the --endpoint', async () => {
+      const { context, output } = createContext()
+      const endpoint = 'https://images.example.com/api/image'
+      const url = buildImageUrl('test-project', source, { endpoint })
+
+      expect(await run(['parse', url, '--endpoint', endpoint], context)).toBe(0)
+      expect(JSON.parse(output.stdout)).toMatchObject({
+        project: 'test-project',
+        options: { endpoint }
+      })
+    })
+
+    it('fails for non-Pixel Puppy URLs', async () => {
+      const { context, output } = createContext()
+
+      expect(await run(['parse', source], context)).toBe(1)
+      expect(output.stderr).toBe('Error: Not a Pixel Puppy URL.\n')
+    })
+  })
+
+  describe('defaults', () => {
+    it('reads the project from environment variables', async () => {
+      const { context, output } = createContext({
+        env: { PIXEL_PUPPY_PROJECT: 'env-project' }
+      })
+
+      await run(['url', source], context)
+
+      expect(output.stdout).toContain('project=env-project')
+    })
+
+    it('reads the endpoint from environment variables', async () => {
+      const { context, output } = createContext({
+        env: { PIXEL_PUPPY_ENDPOINT: 'https://images.example.com/api/image' }
+      })
+
+      await run(['url', 'test-project', source], context)
+
+      expect(output.stdout).toMatch(
+        /^https:\/\/images\.example\.com\/api\/image\?project=test-project/
+      )
+    })
+
+    it('reads the url style from environment variables', async () => {
+      const { context, output } = createContext({
+        env: { PIXEL_PUPPY_URL_STYLE: 'path' }
+      })
+
+      await run(['url', 'test-project', source], context)
+
+      expect(output.stdout).toMatch(
+        /^https:\/\/pixelpuppy\.io\/api\/image\/p\/test-project\//
+      )
+    })
+
+    it('reads defaults from the config file in the working directory', async () => {
+      const { context, output } = createContext({
+        files: {
+          '/app/pixel-puppy.config.json': JSON.stringify({
+            project: 'file-project',
+            baseUrl: 'https://example.com',
+            format: 'avif'
+          })
+        }
+      })
+
+      await run(['url', '/images/hero.jpg'], context)
+
+      expect(output.stdout).toContain('project=file-project')
+      expect(output.stdout).toContain('example.com%2Fimages%2Fhero.jpg')
+      expect(output.stdout).toContain('format=avif')
+    })
+
+    it('reads a config file passed with --config', async () => {
+      const { context, output } = createContext({
+        files: { '/etc/pp.json': JSON.stringify({ project: 'custom' }) }
+      })
+
+      await run(['url', source, '--config', '/etc/pp.json'], context)
+
+      expect(output.stdout).toContain('project=custom')
+    })
+
+    it('prefers environment variables over the config file', async () => {
+      const { context, output } = createContext({
+        env: { PIXEL_PUPPY_PROJECT: 'env-project' },
+        files: {
+          '/app/pixel-puppy.config.json': JSON.stringify({
+            project: 'file-project'
+          })
+        }
+      })
+
+      await run(['url', source], context)
+
+      expect(output.stdout).toContain('project=env-project')
+    })
+
+    it('prefers flags over defaults', async () => {
+      const { context, output } = createContext({
+        env: { PIXEL_PUPPY_FORMAT: 'png' }
+      })
+
+      await run(['url', 'test-project', source, '--format', 'jpeg'], context)
+
+      expect(output.stdout).toContain('format=jpeg')
+    })
+
+    it('fails when an explicit config file is missing', async () => {
+      const { context, output } = createContext()
+
+      expect(
+        await run(['url', source, '--config', 'missing.json'], context)
+      ).toBe(1)
+      expect(output.stderr).toBe(
+        'Error: Config file "missing.json" not found.\n'
+      )
+    })
+
+    it('fails for invalid JSON config files', async () => {
+      const { context, output } = createContext({
+        files: { '/app/pixel-puppy.config.json': '{ nope' }
+      })
+
+      expect(await run(['url', 'p', source], context)).toBe(1)
+      expect(output.stderr).toContain('is not valid JSON')
+    })
+
+    it('fails when no project is available', async () => {
+      const { context, output } = createContext()
+
+      expect(await run(['url', source], context)).toBe(1)
+      expect(output.stderr).toContain('Missing project')
+    })
+  })
+
+  describe('errors', () => {
+    it('fails for unknown commands', async () => {
+      const { context, output } = createContext()
+
+      expect(await run(['resize', source], context)).toBe(1)
+      expect(output.stderr).toBe('Error: Unknown command "resize".\n')
+    })
+
+    it('fails for invalid outputs', async () => {
+      const { context, output } = createContext()
+
+      expect(await run(['url', 'p', source, '-o', 'xml'], context)).toBe(1)
+      expect(output.stderr).toContain('Invalid output')
+    })
+
+    it('fails for unknown options', async () => {
+      const { context } = createContext()
+
+      expect(await run(['url', 'p', source, '--nope'], context)).toBe(1)
+    })
+  })
+})
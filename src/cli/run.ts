@@ -0,0 +1,244 @@
+import { parseArgs } from 'node:util'
+
+import { createPixelPuppy } from '../client'
+import type { ImageFormat } from '../formats'
+import { escapeHtml } from '../html-utils'
+import { withoutUndefined } from '../object-utils'
+import { parseImageUrl } from '../parse'
+import type { UrlStyle } from '../path-urls'
+import type {
+  ResponsiveImageAttributes,
+  ResponsiveStrategy
+} from '../responsive'
+import {
+  configFileName,
+  getEnvDefaults,
+  getFileDefaults,
+  type CliDefaults,
+  type ReadFile
+} from './config'
+
+/**
+ * The environment the CLI runs in
+ */
+export interface CliContext {
+  cwd: string
+  env: Record<string, string | undefined>
+  readFile: ReadFile
+  stderr: (text: string) => void
+  stdout: (text: string) => void
+}
+
+/**
+ * Help text printed for --help
+ */
+export const usage = `Usage: pixel-puppy <command> [options]
+
+Commands:
+  url [project] <source>      Build a transformation URL
+  srcset [project] <source>   Build responsive image attributes
+  parse <url>                 Parse a Pixel Puppy URL
+
+Options:
+  --width <px>                Width in pixels
+  --height <px>               Height in pixels
+  --format <format>           Output format (webp, png, avif, jpeg, gif)
+  --quality <1-100>           Compression quality
+  --sizes <sizes>             Sizes attribute (srcset only)
+  --strategy <strategy>       Srcset strategy: none, default, width, sizes or
+                              density (srcset only)
+  --densities <list>          Pixel densities for the density strategy, e.g.
+                              1,2,3 (srcset only)
+  --base-url <url>            Base URL for relative sources
+  --endpoint <url>            Transformation endpoint, e.g. a custom domain
+  --url-style <query|path>    URL layout (default: query)
+  --output <json|html|text>   Output format (url: text, srcset and parse: json)
+  --config <path>             Config file (default: ${configFileName})
+  -h, --help                  Show this help
+
+The project, base URL, endpoint, format, quality and URL style can also be
+set in the config file or with the PIXEL_PUPPY_PROJECT, PIXEL_PUPPY_BASE_URL,
+PIXEL_PUPPY_ENDPOINT, PIXEL_PUPPY_FORMAT, PIXEL_PUPPY_QUALITY and
+PIXEL_PUPPY_URL_STYLE environment variables.
+`
+
+function toImgTag(attributes: Partial<ResponsiveImageAttributes>): string {
+  const names: Record<string, string> = { srcSet: 'srcset' }
+
+  const html = Object.entries(attributes)
+    .filter(([, value]) => value !== undefined && value !== '')
+    .map(
+      ([key, value]) => `${names[key] ?? key}="${escapeHtml(String(value))}"`
+    )
+    .join(' ')
+
+  return `<img ${html}>`
+}
+
+function toNumber(value: string | undefined): number | undefined {
+  return value === undefined ? undefined : Number(value)
+}
+
+/**
+ * Splits the positional arguments into project and source, falling back to
+ * the default project when only the source is given.
+ */
+function getProjectAndSource(
+  positionals: string[],
+  defaults: CliDefaults
+): { project: string; source: string } {
+  const [first, second] = positionals
+
+  if (second !== undefined) {
+    return { project: first ?? '', source: second }
+  }
+
+  if (first === undefined) {
+    throw new Error('Missing source URL.')
+  }
+
+  if (!defaults.project) {
+    throw new Error(
+      'Missing project. Pass it as an argument, set PIXEL_PUPPY_PROJECT or add it to the config file.'
+    )
+  }
+
+  return { project: defaults.project, source: first }
+}
+
+/**
+ * Runs the pixel-puppy command line tool.
+ *
+ * @param argv - The arguments without the node and script paths
+ * @param context - The environment to run in
+ * @returns The exit code
+ */
+export async function run(
+  argv: string[],
+  context: CliContext
+): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: argv,
+      allowPositionals: true,
+      options: {
+        'base-url': { type: 'string' },
+        config: { type: 'string' },
+        densities: { type: 'string' },
+        endpoint: { type: 'string' },
+        format: { type: 'string' },
+        height: { type: 'string' },
+        help: { type: 'boolean', short: 'h' },
+        output: { type: 'string', short: 'o' },
+        quality: { type: 'string' },
+        sizes: { type: 'string' },
+        strategy: { type: 'string' },
+        'url-style': { type: 'string' },
+        width: { type: 'string' }
+      }
+    })
+
+    const [command, ...args] = positionals
+
+    if (values.help || !command || command === 'help') {
+      context.stdout(usage)
+      return 0
+    }
+
+    const output = values.output
+
+    if (output && !['html', 'json', 'text'].includes(output)) {
+      throw new Error(
+        'Invalid output. Supported outputs are json, html and text.'
+      )
+    }
+
+    if (command !== 'url' && command !== 'srcset' && command !== 'parse') {
+      throw new Error(`Unknown command "${command}".`)
+    }
+
+    const configPath = values.config ?? context.env.PIXEL_PUPPY_CONFIG
+    const defaults: CliDefaults = {
+      ...(await getFileDefaults(
+        context.readFile,
+        configPath ?? `${context.cwd}/${configFileName}`,
+        configPath !== undefined
+      )),
+      ...getEnvDefaults(context.env)
+    }
+    const endpoint = values.endpoint ?? defaults.endpoint
+
+    if (command === 'parse') {
+      const [url] = args
+
+      if (!url) {
+        throw new Error('Missing URL.')
+      }
+
+      const parsed = parseImageUrl(url, { endpoint })
+
+      if (!parsed.success) {
+        throw new Error(parsed.error)
+      }
+
+      const { success, ...result } = parsed
+      context.stdout(`${JSON.stringify(result, null, 2)}\n`)
+
+      return 0
+    }
+
+    const { project, source } = getProjectAndSource(args, defaults)
+    const client = createPixelPuppy({
+      ...defaults,
+      ...withoutUndefined({
+        baseUrl: values['base-url'],
+        endpoint,
+        format: values.format as ImageFormat | undefined,
+        quality: toNumber(values.quality),
+        urlStyle: values['url-style'] as UrlStyle | undefined
+      }),
+      project
+    })
+
+    const width = toNumber(values.width)
+    const height = toNumber(values.height)
+
+    if (command === 'url') {
+      const url = client.url(source, { height, width })
+
+      if (output === 'json') {
+        context.stdout(`${JSON.stringify({ url }, null, 2)}\n`)
+      } else if (output === 'html') {
+        context.stdout(`${toImgTag({ src: url, width, height })}\n`)
+      } else {
+        context.stdout(`${url}\n`)
+      }
+
+      return 0
+    }
+
+    const attributes = client.responsive(source, {
+      densities: values.densities?.split(',').map(Number),
+      height,
+      sizes: values.sizes,
+      strategy: values.strategy as ResponsiveStrategy | undefined,
+      width
+    })
+
+    if (output === 'html') {
+      context.stdout(`${toImgTag(attributes)}\n`)
+    } else if (output === 'text') {
+      context.stdout(`${attributes.srcSet}\n`)
+    } else {
+      context.stdout(`${JSON.stringify(attributes, null, 2)}\n`)
+    }
+
+    return 0
+  } catch (error) {
+    context.stderr(
+      `Error: ${error instanceof Error ? error.message : String(error)}\n`
+    )
+
+    return 1
+  }
+}
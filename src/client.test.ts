@@ -0,0 +1,441 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+import { createPixelPuppy, getDefaultClient } from './client'
+import { configure, getConfig, resetConfig } from './config'
+import { getResponsiveImageAttributes } from './responsive'
+import { verifyImageUrl } from './signing'
+import { buildImageUrl } from './urls'
+
+describe('createPixelPuppy', () => {
+  const src = 'https://example.com/image.jpg'
+
+  beforeEach(() => {
+    resetConfig()
+  })
+
+  describe('validation', () => {
+    it('throws error when project is missing', () => {
+      expect(() => createPixelPuppy({ project: '' })).toThrow(
+        'project is required'
+      )
+    })
+
+    it('throws error for an invalid endpoint', () => {
+      expect(() =>
+        createPixelPuppy({ project: 'test-project', endpoint: 'images' })
+      ).toThrow('Endpoint must be an absolute http(s) URL')
+    })
+
+    it('throws error for an invalid url style', () => {
+      expect(() =>
+        createPixelPuppy({ project: 'test-project', urlStyle: 'slug' as any })
+      ).toThrow('Invalid urlStyle')
+    })
+  })
+
+  describe('url', () => {
+    it('builds the same URL as buildImageUrl', () => {
+      const client = createPixelPuppy({ project: 'test-project' })
+
+      expect(client.url(src, { width: 800 })).toBe(
+        buildImageUrl('test-project', src, { width: 800 })
+      )
+    })
+
+    it('uses the client format as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'png'
+      })
+
+      expect(client.url(src)).toContain('format=png')
+    })
+
+    it('uses the client quality as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'jpeg',
+        quality: 60
+      })
+
+      expect(client.url(src)).toContain('format=jpeg')
+      expect(client.url(src)).toContain('quality=60')
+    })
+
+    it('prefers per-call options over client defaults', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'png'
+      })
+
+      expect(client.url(src, { format: 'webp' })).toContain('format=webp')
+    })
+
+    it('uses the client onInvalid policy as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(client.url(src, { width: -1 })).toBe(src)
+    })
+
+    it('uses the client endpoint as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        endpoint: 'https://images.example.com/api/image'
+      })
+
+      expect(client.url(src)).toMatch(
+        /^https:\/\/images\.example\.com\/api\/image\?/
+      )
+    })
+
+    it('uses the client url style as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        urlStyle: 'path'
+      })
+
+      expect(client.url(src)).toBe(
+        buildImageUrl('test-project', src, { urlStyle: 'path' })
+      )
+    })
+
+    it('uses the client source normalization as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        normalizeSource: true
+      })
+
+      expect(client.url(`${src}?utm_source=x#top`)).toBe(
+        buildImageUrl('test-project', src)
+      )
+    })
+
+    it('ignores undefined per-call options', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'png'
+      })
+
+      expect(client.url(src, { format: undefined })).toContain('format=png')
+    })
+
+    it('resolves relative URLs with the client baseUrl', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        baseUrl: 'https://example.com'
+      })
+
+      expect(client.url('/images/hero.webp')).toContain(
+        'url=https%3A%2F%2Fexample.com%2Fimages%2Fhero.webp'
+      )
+    })
+
+    it('falls back to global config when client has no baseUrl', () => {
+      configure({ baseUrl: 'https://global.example.com' })
+      const client = createPixelPuppy({ project: 'test-project' })
+
+      expect(client.url('/images/hero.webp')).toContain('global.example.com')
+    })
+
+    it('falls back to global config for every setting the client leaves out', () => {
+      configure({
+        endpoint: 'https://images.example.com/api/image',
+        onInvalid: 'fallback-to-original',
+        urlStyle: 'path'
+      })
+      const client = createPixelPuppy({ project: 'test-project' })
+
+      expect(client.url(src)).toBe(buildImageUrl('test-project', src))
+      expect(client.url(src)).toMatch(
+        /^https:\/\/images\.example\.com\/.*\/p\//
+      )
+      expect(client.url(src, { width: -1 })).toBe(src)
+    })
+  })
+
+  describe('responsive', () => {
+    it('matches getResponsiveImageAttributes', () => {
+      const client = createPixelPuppy({ project: 'test-project' })
+
+      expect(client.responsive(src, { width: 800 })).toEqual(
+        getResponsiveImageAttributes('test-project', src, { width: 800 })
+      )
+    })
+
+    it('uses client breakpoints as defaults', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        deviceBreakpoints: [400, 800]
+      })
+
+      const result = client.responsive(src)
+
+      expect(result.srcSet).toContain('400w')
+      expect(result.srcSet).toContain('800w')
+      expect(result.srcSet).not.toContain('480w')
+    })
+
+    it('uses the client breakpoint range as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        breakpoints: { min: 500, max: 1000, step: 500 }
+      })
+
+      const result = client.responsive(src)
+
+      expect(result.srcSet.match(/(\d+)w/g)).toEqual(['500w', '1000w'])
+    })
+
+    it('uses the client onInvalid policy as default', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        onInvalid: 'drop-option'
+      })
+
+      expect(client.responsive(src, { width: 800, quality: 0 })).toEqual(
+        client.responsive(src, { width: 800 })
+      )
+    })
+
+    it('prefers per-call breakpoints over client defaults', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        deviceBreakpoints: [400, 800]
+      })
+
+      const result = client.responsive(src, { deviceBreakpoints: [500] })
+
+      expect(result.srcSet).toContain('500w')
+      expect(result.srcSet).not.toContain('400w')
+    })
+  })
+
+  describe('multiple instances', () => {
+    it('keeps settings isolated between clients', () => {
+      const marketing = createPixelPuppy({
+        project: 'marketing',
+        baseUrl: 'https://marketing.example.com'
+      })
+      const app = createPixelPuppy({
+        project: 'app',
+        baseUrl: 'https://app.example.com',
+        format: 'png'
+      })
+
+      const marketingUrl = marketing.url('/hero.jpg')
+      const appUrl = app.url('/hero.jpg')
+
+      expect(marketingUrl).toContain('project=marketing')
+      expect(marketingUrl).toContain('marketing.example.com')
+      expect(marketingUrl).toContain('format=webp')
+      expect(appUrl).toContain('project=app')
+      expect(appUrl).toContain('app.example.com')
+      expect(appUrl).toContain('format=png')
+    })
+
+    it('does not modify global config', () => {
+      createPixelPuppy({
+        project: 'test-project',
+        baseUrl: 'https://example.com'
+      })
+
+      expect(getConfig().baseUrl).toBeUndefined()
+    })
+  })
+
+  describe('picture', () => {
+    it('uses client settings for every source', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        deviceBreakpoints: [400, 800],
+        quality: 60
+      })
+
+      const result = client.picture(src, { formats: ['avif', 'jpeg'] })
+
+      expect(result.sources[0]?.srcSet).toContain('400w')
+      expect(result.sources[0]?.srcSet).toContain('quality=60')
+      expect(result.img.src).toContain('format=jpeg')
+    })
+  })
+
+  describe('placeholder', () => {
+    it('uses client settings for the placeholder URL', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        baseUrl: 'https://example.com',
+        format: 'jpeg'
+      })
+
+      const result = client.placeholder('/images/hero.jpg')
+
+      expect(result?.url).toContain('project=test-project')
+      expect(result?.url).toContain('format=jpeg')
+      expect(result?.url).toContain(
+        'url=https%3A%2F%2Fexample.com%2Fimages%2Fhero.jpg'
+      )
+    })
+  })
+
+  describe('background', () => {
+    it('uses client settings for every candidate', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        deviceBreakpoints: [640, 1280],
+        quality: 60
+      })
+
+      const result = client.background(src, { selector: '.hero' })
+
+      expect(result.css).toContain('@media (max-width: 640px)')
+      expect(result.style.backgroundImage).toContain('width=2560')
+      expect(result.style.backgroundImage).toContain('quality=60')
+    })
+
+    it('uses the client format as the only format', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'png'
+      })
+
+      const result = client.background(src)
+
+      expect(result.style.backgroundImage).toContain('format=png')
+      expect(result.style.backgroundImage).not.toContain('format=avif')
+      expect(client.background(src, { formats: ['avif'] }).css).toContain(
+        'format=avif'
+      )
+    })
+  })
+
+  describe('preload', () => {
+    it('matches the responsive attributes', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        format: 'avif',
+        deviceBreakpoints: [640, 1280]
+      })
+
+      const preload = client.preload(src, { sizes: '100vw' })
+      const image = client.responsive(src, { sizes: '100vw' })
+
+      expect(preload.attributes.imageSrcSet).toBe(image.srcSet)
+      expect(preload.attributes.href).toBe(image.src)
+    })
+  })
+
+  describe('signedUrl', () => {
+    it('signs URLs with the client secret', async () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        signingSecret: 'client-secret'
+      })
+
+      const url = await client.signedUrl(src, { width: 800 })
+
+      expect(url).toContain('width=800')
+      expect(await verifyImageUrl(url, 'client-secret')).toBe(true)
+    })
+  })
+
+  describe('signedResponsive', () => {
+    it('signs every candidate with the client secret', async () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        signingSecret: 'client-secret',
+        deviceBreakpoints: [640, 1280]
+      })
+
+      const result = await client.signedResponsive(src, { sizes: '100vw' })
+
+      expect(result.srcSet.split(', ')).toHaveLength(
+        client.responsive(src, { sizes: '100vw' }).srcSet.split(', ').length
+      )
+      expect(result.srcSet).toContain('signature=')
+      expect(await verifyImageUrl(result.src, 'client-secret')).toBe(true)
+    })
+
+    it('does not sign with the other helpers', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        signingSecret: 'client-secret'
+      })
+
+      expect(client.responsive(src).srcSet).not.toContain('signature=')
+    })
+  })
+
+  describe('resolve', () => {
+    it('resolves relative URLs with the client baseUrl', () => {
+      const client = createPixelPuppy({
+        project: 'test-project',
+        baseUrl: 'https://example.com'
+      })
+
+      expect(client.resolve('/images/hero.webp')).toBe(
+        'https://example.com/images/hero.webp'
+      )
+    })
+  })
+
+  describe('getOptions', () => {
+    it('returns frozen settings', () => {
+      const client = createPixelPuppy({ project: 'test-project' })
+
+      expect(client.project).toBe('test-project')
+      expect(Object.isFrozen(client.getOptions())).toBe(true)
+    })
+  })
+})
+
+describe('getDefaultClient', () => {
+  const src = 'https://example.com/image.jpg'
+
+  beforeEach(() => {
+    resetConfig()
+  })
+
+  it('builds the same URLs as the free functions', () => {
+    const client = getDefaultClient('test-project')
+
+    expect(client.url(src, { width: 800 })).toBe(
+      buildImageUrl('test-project', src, { width: 800 })
+    )
+    expect(client.responsive(src, { sizes: '100vw' })).toEqual(
+      getResponsiveImageAttributes('test-project', src, { sizes: '100vw' })
+    )
+  })
+
+  it('uses the global configuration as its settings', () => {
+    configure({
+      baseUrl: 'https://example.com',
+      endpoint: 'https://images.example.com/api/image'
+    })
+
+    const client = getDefaultClient('test-project')
+
+    expect(client.getOptions()).toEqual({
+      baseUrl: 'https://example.com',
+      endpoint: 'https://images.example.com/api/image',
+      project: 'test-project'
+    })
+    expect(client.url('/hero.jpg')).toMatch(
+      /^https:\/\/images\.example\.com\/api\/image\?/
+    )
+  })
+
+  it('picks up later configure() calls', () => {
+    configure({ urlStyle: 'path' })
+    const before = buildImageUrl('test-project', src)
+
+    configure({})
+
+    expect(buildImageUrl('test-project', src)).not.toBe(before)
+    expect(getDefaultClient('test-project').url(src)).toBe(
+      buildImageUrl('test-project', src)
+    )
+  })
+})
@@ -0,0 +1,377 @@
+import {
+  createBackgroundImageStyles,
+  type BackgroundImageOptions,
+  type BackgroundImageStyles
+} from './background'
+import type { BreakpointRange } from './breakpoints'
+import {
+  getConfig,
+  getUrlStyle,
+  normalizeEndpoint,
+  type PixelPuppyConfig
+} from './config'
+import { MissingOptionError } from './errors'
+import { withoutUndefined } from './object-utils'
+import {
+  createPictureAttributes,
+  type PictureAttributes,
+  type PictureOptions
+} from './picture'
+import {
+  createPlaceholder,
+  type Placeholder,
+  type PlaceholderOptions
+} from './placeholder'
+import {
+  createPreloadLink,
+  type PreloadLink,
+  type PreloadOptions
+} from './preload'
+import {
+  createResponsiveImageAttributes,
+  type ResponsiveImageAttributes,
+  type ResponsiveImageOptions
+} from './responsive'
+import {
+  createSignedImageUrl,
+  createSignedResponsiveImageAttributes,
+  type SignedResponsiveImageOptions,
+  type SignedTransformationOptions
+} from './signing'
+import { resolveUrl } from './url-utils'
+import { createImageUrl, type TransformationOptions } from './urls'
+
+/**
+ * Options for creating a Pixel Puppy client instance
+ */
+export interface PixelPuppyClientOptions extends PixelPuppyConfig {
+  /**
+   * Breakpoint range used by `responsive()`, `picture()`, `preload()` and
+   * `background()` unless overridden per call.
+   * Takes precedence over deviceBreakpoints and imageBreakpoints.
+   */
+  breakpoints?: BreakpointRange
+  /**
+   * Custom device width breakpoints used by `responsive()`, `picture()`,
+   * `preload()` and `background()` unless overridden per call.
+   */
+  deviceBreakpoints?: readonly number[]
+  /**
+   * Default image format for every URL built by this client. It is the only
+   * format of `background()` unless formats is given per call, while
+   * `picture()` always offers its own formats.
+   */
+  format?: TransformationOptions['format']
+  /**
+   * Custom image width breakpoints used by `responsive()`, `picture()` and
+   * `preload()` unless overridden per call. `background()` spans the
+   * viewport, so it only uses the device breakpoints.
+   */
+  imageBreakpoints?: readonly number[]
+  /**
+   * The Pixel Puppy project identifier every URL is built for.
+   */
+  project: string
+  /**
+   * Default compression quality for every URL built by this client, a whole
+   * number from 1 to 100.
+   */
+  quality?: number
+}
+
+/**
+ * A Pixel Puppy client bound to a single project and its defaults
+ */
+export interface PixelPuppyClient {
+  /**
+   * Generates CSS background image styles using this client's settings
+   */
+  background(
+    src: string,
+    options?: BackgroundImageOptions
+  ): BackgroundImageStyles
+  /**
+   * Returns the settings this client was created with
+   */
+  getOptions(): Readonly<PixelPuppyClientOptions>
+  /**
+   * Generates picture element attributes using this client's settings
+   */
+  picture(src: string, options?: PictureOptions): PictureAttributes
+  /**
+   * Generates a low-quality image placeholder using this client's settings
+   */
+  placeholder(
+    src: string,
+    options?: PlaceholderOptions
+  ): Placeholder | undefined
+  /**
+   * Generates a preload link using this client's settings
+   */
+  preload(src: string, options?: PreloadOptions): PreloadLink
+  /**
+   * The Pixel Puppy project identifier this client is bound to
+   */
+  readonly project: string
+  /**
+   * Resolves a potentially relative URL using this client's baseUrl
+   */
+  resolve(src: string): string
+  /**
+   * Generates responsive image attributes using this client's settings
+   */
+  responsive(
+    src: string,
+    options?: ResponsiveImageOptions
+  ): ResponsiveImageAttributes
+  /**
+   * Generates responsive image attributes with signed URLs using this
+   * client's settings
+   */
+  signedResponsive(
+    src: string,
+    options?: SignedResponsiveImageOptions
+  ): Promise<ResponsiveImageAttributes>
+  /**
+   * Builds a signed transformation URL using this client's settings
+   */
+  signedUrl(src: string, options?: SignedTransformationOptions): Promise<string>
+  /**
+   * Builds a transformation URL using this client's settings
+   */
+  url(src: string, options?: TransformationOptions): string
+}
+
+// Binds the methods to the settings. Per-call options are merged over the
+// settings, and undefined values never hide a default.
+function bindClient(
+  settings: Readonly<PixelPuppyClientOptions>
+): PixelPuppyClient {
+  const {
+    project,
+    baseUrl,
+    breakpoints,
+    endpoint,
+    format,
+    deviceBreakpoints,
+    imageBreakpoints,
+    normalizeSource,
+    onInvalid,
+    quality,
+    signingSecret,
+    urlStyle
+  } = settings
+
+  return {
+    project,
+
+    background(src, callOptions = {}) {
+      return createBackgroundImageStyles(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          breakpoints,
+          deviceBreakpoints,
+          endpoint,
+          formats: format ? [format] : undefined,
+          normalizeSource,
+          onInvalid,
+          quality,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    getOptions() {
+      return settings
+    },
+
+    picture(src, callOptions = {}) {
+      return createPictureAttributes(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          breakpoints,
+          deviceBreakpoints,
+          endpoint,
+          imageBreakpoints,
+          normalizeSource,
+          onInvalid,
+          quality,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    placeholder(src, callOptions = {}) {
+      return createPlaceholder(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          endpoint,
+          format,
+          normalizeSource,
+          onInvalid,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    preload(src, callOptions = {}) {
+      return createPreloadLink(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          breakpoints,
+          deviceBreakpoints,
+          endpoint,
+          format,
+          imageBreakpoints,
+          normalizeSource,
+          onInvalid,
+          quality,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    resolve(src) {
+      return resolveUrl(src, baseUrl)
+    },
+
+    responsive(src, callOptions = {}) {
+      return createResponsiveImageAttributes(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          breakpoints,
+          deviceBreakpoints,
+          endpoint,
+          format,
+          imageBreakpoints,
+          normalizeSource,
+          onInvalid,
+          quality,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    signedResponsive(src, callOptions = {}) {
+      return createSignedResponsiveImageAttributes(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          breakpoints,
+          deviceBreakpoints,
+          endpoint,
+          format,
+          imageBreakpoints,
+          normalizeSource,
+          onInvalid,
+          quality,
+          signingSecret,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    signedUrl(src, callOptions = {}) {
+      return createSignedImageUrl(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          endpoint,
+          format,
+          normalizeSource,
+          onInvalid,
+          quality,
+          signingSecret,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    },
+
+    url(src, callOptions = {}) {
+      return createImageUrl(project, src, {
+        ...withoutUndefined({
+          baseUrl,
+          endpoint,
+          format,
+          normalizeSource,
+          onInvalid,
+          quality,
+          urlStyle
+        }),
+        ...withoutUndefined(callOptions)
+      })
+    }
+  }
+}
+
+/**
+ * Creates a Pixel Puppy client bound to a project and a set of defaults.
+ *
+ * Each client keeps its own settings, so several projects can be used side
+ * by side in the same process without touching the global configuration.
+ * Per-call options always take precedence over the client defaults.
+ *
+ * The free functions, such as buildImageUrl, call the same methods on a
+ * default client built from configure(). Settings a client leaves out fall
+ * back to that global configuration.
+ * Only signedUrl() and signedResponsive() sign URLs; the other helpers
+ * ignore signingSecret.
+ *
+ * @param options - The project and default settings for this client
+ * @returns A client with helpers bound to the given settings
+ *
+ * @throws {MissingOptionError} MISSING_PROJECT when project is not provided
+ * @throws {InvalidOptionError} INVALID_ENDPOINT when endpoint is not an absolute http(s) URL without a query string or fragment
+ * @throws {InvalidOptionError} INVALID_URL_STYLE when urlStyle is not a supported style
+ *
+ * @example
+ * const marketing = createPixelPuppy({
+ *   project: 'marketing-site',
+ *   baseUrl: 'https://example.com'
+ * })
+ *
+ * marketing.url('/images/hero.jpg', { width: 800 })
+ * marketing.responsive('/images/hero.jpg', { sizes: '100vw' })
+ *
+ * @example
+ * // Per-tenant clients with different defaults
+ * const storefront = createPixelPuppy({
+ *   project: 'tenant-storefront',
+ *   baseUrl: 'https://shop.example.com',
+ *   format: 'png'
+ * })
+ */
+export function createPixelPuppy(
+  options: PixelPuppyClientOptions
+): PixelPuppyClient {
+  if (!options.project) {
+    throw new MissingOptionError('MISSING_PROJECT', 'project is required.', {
+      option: 'project'
+    })
+  }
+
+  if (options.endpoint !== undefined) {
+    normalizeEndpoint(options.endpoint)
+  }
+
+  if (options.urlStyle !== undefined) {
+    getUrlStyle(options.urlStyle)
+  }
+
+  return bindClient(Object.freeze({ ...options }))
+}
+
+/**
+ * Returns the client behind the free functions for a project, built from the
+ * global configuration. It is built on every call, so configure() takes
+ * effect right away.
+ */
+export function getDefaultClient(project: string): PixelPuppyClient {
+  // The free functions validate their own arguments, with their own messages
+  return bindClient(Object.freeze({ ...getConfig(), project }))
+}
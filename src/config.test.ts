@@ -21,6 +21,35 @@ describe('config', () => {
       expect(getConfig().baseUrl).toBe('https://second.com')
     })
 
+    it('sets the endpoint', () => {
+      configure({ endpoint: 'https://images.example.com/api/image' })
+
+      expect(getConfig().endpoint).toBe('https://images.example.com/api/image')
+    })
+
+    it.each([
+      'images.example.com/api/image',
+      'ftp://images.example.com/api/image',
+      'https://images.example.com/api/image?project=x',
+      'https://images.example.com/api/image#top'
+    ])('rejects the invalid endpoint %s', (endpoint) => {
+      expect(() => configure({ endpoint })).toThrow(
+        'Endpoint must be an absolute http(s) URL without a query string or fragment.'
+      )
+    })
+
+    it('sets the url style', () => {
+      configure({ urlStyle: 'path' })
+
+      expect(getConfig().urlStyle).toBe('path')
+    })
+
+    it('rejects invalid url styles', () => {
+      expect(() => configure({ urlStyle: 'segments' as any })).toThrow(
+        'Invalid urlStyle. Supported styles are query and path.'
+      )
+    })
+
     it('allows empty configuration', () => {
       configure({ baseUrl: 'https://example.com' })
       configure({})
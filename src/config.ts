@@ -1,3 +1,8 @@
+import { InvalidOptionError } from './errors'
+import { urlStyles, type UrlStyle } from './path-urls'
+import type { SourceNormalizationOptions } from './url-utils'
+import type { InvalidOptionPolicy } from './validation'
+
 /**
  * Global configuration options for the Pixel Puppy library
  */
@@ -10,10 +15,144 @@ export interface PixelPuppyConfig {
    * if not explicitly set.
    */
   baseUrl?: string
+  /**
+   * The image transformation endpoint to build URLs for, e.g. a custom domain
+   * pointing at Pixel Puppy or a staging instance. URLs from this endpoint
+   * are recognised when parsing, alongside the default endpoint.
+   * @default 'https://pixelpuppy.io/api/image'
+   *
+   * @example
+   * configure({ endpoint: 'https://images.example.com/api/image' })
+   */
+  endpoint?: string
+  /**
+   * Normalizes source URLs before building transformation URLs, so different
+   * spellings of the same asset share one cache entry: lowercases the host,
+   * removes default ports, resolves dot segments, strips the fragment,
+   * removes tracking parameters and sorts the query. Pass an object to adjust
+   * the rules.
+   * @default false
+   *
+   * @example
+   * configure({ normalizeSource: true })
+   *
+   * @example
+   * // Also drop a custom parameter, and keep the query order
+   * configure({
+   *   normalizeSource: {
+   *     removeParams: [...defaultTrackingParams, 'ref'],
+   *     sortQuery: false
+   *   }
+   * })
+   */
+  normalizeSource?: boolean | SourceNormalizationOptions
+  /**
+   * How invalid options are handled when a call does not set onInvalid:
+   * 'throw', 'fallback-to-original' or 'drop-option'.
+   * @default 'throw'
+   *
+   * @example
+   * // Never break a page over a bad width from the CMS
+   * configure({ onInvalid: 'fallback-to-original' })
+   */
+  onInvalid?: InvalidOptionPolicy
+  /**
+   * How URLs are laid out: 'query' puts everything in the query string,
+   * 'path' puts it in the path for CDNs that cache query strings poorly.
+   * @default 'query'
+   *
+   * @example
+   * configure({ urlStyle: 'path' })
+   * // https://pixelpuppy.io/api/image/p/my-project/w_800,f_webp/https/example.com/photo.jpg
+   */
+  urlStyle?: UrlStyle
+  /**
+   * Secret used to sign URLs built with buildSignedImageUrl and
+   * getSignedResponsiveImageAttributes. The synchronous helpers, such as
+   * buildImageUrl and getResponsiveImageAttributes, never sign URLs.
+   * Keep this on the server; anyone holding it can sign URLs for your project.
+   */
+  signingSecret?: string
 }
 
+/**
+ * The Pixel Puppy image transformation endpoint
+ */
+export const defaultEndpoint = 'https://pixelpuppy.io/api/image'
+
 let globalConfig: PixelPuppyConfig = {}
 
+/**
+ * Checks that an endpoint is an absolute http(s) URL without a query string
+ * or fragment, and returns it without a trailing slash
+ */
+export function normalizeEndpoint(endpoint: string): string {
+  let url: URL | undefined
+
+  try {
+    url = new URL(endpoint)
+  } catch {
+    url = undefined
+  }
+
+  if (
+    !url ||
+    (url.protocol !== 'https:' && url.protocol !== 'http:') ||
+    url.search ||
+    url.hash
+  ) {
+    throw new InvalidOptionError(
+      'INVALID_ENDPOINT',
+      'Endpoint must be an absolute http(s) URL without a query string or fragment.',
+      { option: 'endpoint', value: endpoint }
+    )
+  }
+
+  return `${url.origin}${url.pathname.replace(/\/+$/, '')}`
+}
+
+/**
+ * Resolves the endpoint for a call, falling back to the global configuration
+ * and then to the default endpoint
+ */
+export function getEndpoint(endpoint?: string): string {
+  return normalizeEndpoint(endpoint ?? globalConfig.endpoint ?? defaultEndpoint)
+}
+
+/**
+ * Resolves the URL style for a call, falling back to the global
+ * configuration and then to 'query'
+ */
+export function getUrlStyle(urlStyle?: UrlStyle): UrlStyle {
+  const style = urlStyle ?? globalConfig.urlStyle ?? 'query'
+
+  if (!urlStyles.includes(style)) {
+    throw new InvalidOptionError(
+      'INVALID_URL_STYLE',
+      'Invalid urlStyle. Supported styles are query and path.',
+      { option: 'urlStyle', value: style }
+    )
+  }
+
+  return style
+}
+
+/**
+ * Resolves the source normalization rules for a call, falling back to the
+ * global configuration. Returns undefined when normalization is off.
+ */
+export function getSourceNormalization(
+  normalizeSource?: boolean | SourceNormalizationOptions
+): SourceNormalizationOptions | undefined {
+  const normalization = normalizeSource ?? globalConfig.normalizeSource
+
+  if (!normalization) {
+    return undefined
+  }
+
+  return normalization === true ? {} : normalization
+}
+
 /**
  * Configure global defaults for the Pixel Puppy library.
  * Call this once at application startup.
@@ -23,6 +162,9 @@ let globalConfig: PixelPuppyConfig = {}
  *
  * In SSR/Node environments, you must configure a baseUrl to use relative URLs.
  *
+ * @throws {InvalidOptionError} INVALID_ENDPOINT when endpoint is not an absolute http(s) URL without a query string or fragment
+ * @throws {InvalidOptionError} INVALID_URL_STYLE when urlStyle is not a supported style
+ *
  * @example
  * // In SSR/Node.js app initialization
  * configure({ baseUrl: 'https://example.com' })
@@ -33,8 +175,20 @@ let globalConfig: PixelPuppyConfig = {}
  * @example
  * // In Next.js
  * configure({ baseUrl: process.env.NEXT_PUBLIC_BASE_URL })
+ *
+ * @example
+ * // Serve images through your own domain
+ * configure({ endpoint: 'https://images.example.com/api/image' })
  */
 export function configure(config: PixelPuppyConfig): void {
+  if (config.endpoint !== undefined) {
+    normalizeEndpoint(config.endpoint)
+  }
+
+  if (config.urlStyle !== undefined) {
+    getUrlStyle(config.urlStyle)
+  }
+
   globalConfig = { ...config }
 }
 
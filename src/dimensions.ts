@@ -0,0 +1,173 @@
+import type { ValidationIssue } from './errors'
+
+/**
+ * Supported resize fit modes
+ */
+export const fitModes = [
+  'cover',
+  'contain',
+  'fill',
+  'inside',
+  'outside'
+] as const
+
+/**
+ * How the image is resized when both dimensions are constrained
+ */
+export type FitMode = (typeof fitModes)[number]
+
+/**
+ * Supported crop gravities. Compass directions anchor the crop to an edge or
+ * corner, 'face' centres it on detected faces and 'entropy' on the most
+ * detailed region.
+ */
+export const gravities = [
+  'center',
+  'north',
+  'north-east',
+  'east',
+  'south-east',
+  'south',
+  'south-west',
+  'west',
+  'north-west',
+  'face',
+  'entropy'
+] as const
+
+/**
+ * Which part of the image is kept when cropping
+ */
+export type Gravity = (typeof gravities)[number]
+
+/**
+ * Converts an aspect ratio option into a number (width / height).
+ * Returns NaN when the value is not a valid aspect ratio.
+ */
+export function getAspectRatioValue(aspectRatio: number | string): number {
+  if (typeof aspectRatio === 'number') {
+    return aspectRatio > 0 && Number.isFinite(aspectRatio) ? aspectRatio : NaN
+  }
+
+  const match = aspectRatio
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*[:/]\s*(\d+(?:\.\d+)?)$/)
+
+  if (!match?.[1] || !match[2]) {
+    return NaN
+  }
+
+  const ratio = Number(match[1]) / Number(match[2])
+
+  return ratio > 0 && Number.isFinite(ratio) ? ratio : NaN
+}
+
+/**
+ * The known size of the source image in pixels
+ */
+export interface SourceSize {
+  intrinsicHeight?: number
+  intrinsicWidth?: number
+}
+
+/**
+ * Checks that the known source dimensions are positive numbers, returning
+ * one issue per invalid dimension
+ */
+export function getSourceSizeIssues(size: SourceSize): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+
+  for (const [path, label] of [
+    ['intrinsicWidth', 'Intrinsic width'],
+    ['intrinsicHeight', 'Intrinsic height']
+  ] as const) {
+    const value = size[path]
+
+    if (value !== undefined && !(value > 0 && Number.isFinite(value))) {
+      issues.push({
+        code: 'INVALID_INTRINSIC_SIZE',
+        message: `${label} must be a positive number.`,
+        path,
+        value
+      })
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Returns the widest image the source can provide without scaling up, or
+ * undefined when the source size is unknown. The intrinsic height only
+ * limits the width when the output is cropped to a known aspect ratio.
+ */
+export function getSourceWidthLimit(
+  source: SourceSize,
+  outputRatio: number | undefined
+): number | undefined {
+  const { intrinsicHeight, intrinsicWidth } = source
+  const widths = [
+    intrinsicWidth,
+    intrinsicHeight && outputRatio
+      ? Math.round(intrinsicHeight * outputRatio)
+      : undefined
+  ].filter((value): value is number => value !== undefined && value > 0)
+
+  return widths.length > 0 ? Math.min(...widths) : undefined
+}
+
+/**
+ * Replaces the widths wider than the source with the source width
+ */
+export function capWidths(
+  widths: number[],
+  maxWidth: number | undefined
+): number[] {
+  if (maxWidth === undefined || widths.every((w) => w < maxWidth)) {
+    return widths
+  }
+
+  return [...widths.filter((w) => w < maxWidth), maxWidth]
+}
+
+/**
+ * Caps the widths at the source width like capWidths, and adds the source
+ * width as the top candidate when it is wider than every width
+ */
+export function capWidthsToSource(
+  widths: number[],
+  maxWidth: number | undefined
+): number[] {
+  const capped = capWidths(widths, maxWidth)
+  const largest = capped[capped.length - 1]
+
+  return maxWidth !== undefined && largest !== undefined && largest < maxWidth
+    ? [...capped, maxWidth]
+    : capped
+}
+
+/**
+ * Returns the factor (at most 1) that shrinks the requested dimensions so
+ * neither exceeds the source. A missing dimension is derived from the aspect
+ * ratio when one is known, and ignored otherwise.
+ */
+export function getDownscaleFactor(
+  requested: { height?: number; width?: number },
+  aspectRatio: number | undefined,
+  source: SourceSize
+): number {
+  const width =
+    requested.width ??
+    (requested.height && aspectRatio
+      ? requested.height * aspectRatio
+      : undefined)
+  const height =
+    requested.height ??
+    (requested.width && aspectRatio ? requested.width / aspectRatio : undefined)
+
+  return Math.min(
+    1,
+    width && source.intrinsicWidth ? source.intrinsicWidth / width : 1,
+    height && source.intrinsicHeight ? source.intrinsicHeight / height : 1
+  )
+}
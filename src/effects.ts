@@ -0,0 +1,237 @@
+import type { ValidationIssue } from './errors'
+
+/**
+ * Supported flip directions
+ */
+export const flipDirections = ['horizontal', 'vertical', 'both'] as const
+
+/**
+ * Which axis the image is mirrored along
+ */
+export type FlipDirection = (typeof flipDirections)[number]
+
+/**
+ * Clockwise rotation in degrees, or 'auto' to orient the image by its EXIF
+ * data. 0 leaves the image unrotated.
+ */
+export type Rotation = 0 | 90 | 180 | 270 | 'auto'
+
+/**
+ * Adjustments applied to the image after resizing
+ */
+export interface ImageEffects {
+  /**
+   * Blur radius from 1 to 100
+   */
+  blur?: number
+  /**
+   * Brightness adjustment from -100 to 100. 0 leaves the image unchanged.
+   */
+  brightness?: number
+  /**
+   * Contrast adjustment from -100 to 100. 0 leaves the image unchanged.
+   */
+  contrast?: number
+  /**
+   * Mirrors the image horizontally, vertically or both
+   */
+  flip?: FlipDirection
+  /**
+   * Converts the image to grayscale
+   */
+  grayscale?: boolean
+  /**
+   * Rotates the image clockwise by 90, 180 or 270 degrees, or orients it by
+   * its EXIF data with 'auto'
+   */
+  rotate?: Rotation
+  /**
+   * Sharpen amount from 1 to 100
+   */
+  sharpen?: number
+}
+
+/**
+ * Effect option names in the order they are serialized. Keeping a fixed
+ * order makes identical transformations produce byte-identical URLs.
+ */
+export const effectKeys = [
+  'rotate',
+  'flip',
+  'blur',
+  'sharpen',
+  'grayscale',
+  'brightness',
+  'contrast'
+] as const satisfies readonly (keyof ImageEffects)[]
+
+const rotations: readonly Rotation[] = [0, 90, 180, 270, 'auto']
+
+function getRangeIssue(
+  path: keyof ImageEffects,
+  label: string,
+  value: number | undefined,
+  min: number,
+  max: number
+): ValidationIssue | undefined {
+  if (Number.isNaN(value)) {
+    return {
+      code: 'INVALID_EFFECT',
+      message: `${label} must be a number.`,
+      path,
+      value
+    }
+  }
+
+  if (value !== undefined && (value < min || value > max)) {
+    return {
+      code: 'INVALID_EFFECT',
+      message: `${label} must be between ${min} and ${max}.`,
+      path,
+      value
+    }
+  }
+
+  return undefined
+}
+
+/**
+ * Validates effect options, returning one issue per invalid value
+ */
+export function getEffectIssues(effects: ImageEffects): ValidationIssue[] {
+  const { blur, brightness, contrast, flip, rotate, sharpen } = effects
+  const issues: ValidationIssue[] = []
+
+  if (rotate !== undefined && !rotations.includes(rotate)) {
+    issues.push({
+      code: 'INVALID_EFFECT',
+      message: 'Rotate must be 90, 180, 270 or auto.',
+      path: 'rotate',
+      value: rotate
+    })
+  }
+
+  if (flip !== undefined && !flipDirections.includes(flip)) {
+    issues.push({
+      code: 'INVALID_EFFECT',
+      message:
+        'Invalid flip. Supported flips are horizontal, vertical and both.',
+      path: 'flip',
+      value: flip
+    })
+  }
+
+  for (const issue of [
+    getRangeIssue('blur', 'Blur', blur, 1, 100),
+    getRangeIssue('sharpen', 'Sharpen', sharpen, 1, 100),
+    getRangeIssue('brightness', 'Brightness', brightness, -100, 100),
+    getRangeIssue('contrast', 'Contrast', contrast, -100, 100)
+  ]) {
+    if (issue) {
+      issues.push(issue)
+    }
+  }
+
+  return issues
+}
+
+/**
+ * Appends effect parameters in a fixed order. Neutral values (no rotation,
+ * no grayscale, zero brightness or contrast) are left out.
+ */
+export function appendEffectParams(
+  params: URLSearchParams,
+  effects: ImageEffects
+): void {
+  for (const key of effectKeys) {
+    const value = effects[key]
+
+    if (value === undefined || value === false || value === 0) {
+      continue
+    }
+
+    params.append(key, value.toString())
+  }
+}
+
+/**
+ * Picks the effect options out of a larger options object
+ */
+export function pickEffects(options: ImageEffects): ImageEffects {
+  const effects: Record<string, unknown> = {}
+
+  for (const key of effectKeys) {
+    if (options[key] !== undefined) {
+      effects[key] = options[key]
+    }
+  }
+
+  return effects as ImageEffects
+}
+
+/**
+ * Returns a copy of an options object without the effect options
+ */
+export function omitEffects<T extends ImageEffects>(
+  options: T
+): Omit<T, keyof ImageEffects> {
+  const rest = { ...options } as Record<string, unknown>
+
+  for (const key of effectKeys) {
+    delete rest[key]
+  }
+
+  return rest as Omit<T, keyof ImageEffects>
+}
+
+/**
+ * Reads effect options from query parameters.
+ * Returns an error message when a parameter is invalid.
+ */
+export function parseEffectParams(
+  params: URLSearchParams
+): ImageEffects | string {
+  const effects: ImageEffects = {}
+
+  for (const key of effectKeys) {
+    const value = params.get(key)
+
+    if (value === null) {
+      continue
+    }
+
+    if (key === 'flip') {
+      if (!flipDirections.includes(value as FlipDirection)) {
+        return `Unsupported flip "${value}".`
+      }
+
+      effects.flip = value as FlipDirection
+    } else if (key === 'grayscale') {
+      if (value !== 'true') {
+        return `Invalid grayscale "${value}".`
+      }
+
+      effects.grayscale = true
+    } else if (key === 'rotate') {
+      const rotation = value === 'auto' ? value : Number(value)
+
+      if (!rotations.includes(rotation as Rotation)) {
+        return `Invalid rotate "${value}".`
+      }
+
+      effects.rotate = rotation as Rotation
+    } else {
+      const parsedValue = Number(value)
+
+      if (value === '' || Number.isNaN(parsedValue)) {
+        return `Invalid ${key} "${value}".`
+      }
+
+      effects[key] = parsedValue
+    }
+  }
+
+  const [issue] = getEffectIssues(effects)
+
+  return issue ? issue.message : effects
+}
@@ -0,0 +1,157 @@
+import { afterEach, describe, it, expect } from 'vitest'
+
+import { createPixelPuppy } from './client'
+import {
+  InvalidOptionError,
+  MissingOptionError,
+  PixelPuppyError
+} from './errors'
+import { getResponsiveImageAttributes } from './responsive'
+import { signImageUrl } from './signing'
+import { buildImageUrl } from './urls'
+
+function catchError(fn: () => unknown): unknown {
+  try {
+    fn()
+  } catch (error) {
+    return error
+  }
+
+  throw new Error('Expected the function to throw.')
+}
+
+describe('PixelPuppyError', () => {
+  const project = 'test-project'
+  const src = 'https://example.com/image.jpg'
+
+  describe('classes', () => {
+    it('carries the code, option and value', () => {
+      const error = new InvalidOptionError('INVALID_WIDTH', 'Bad width.', {
+        option: 'width',
+        value: -1
+      })
+
+      expect(error).toBeInstanceOf(Error)
+      expect(error).toBeInstanceOf(PixelPuppyError)
+      expect(error.name).toBe('InvalidOptionError')
+      expect(error.message).toBe('Bad width.')
+      expect(error.code).toBe('INVALID_WIDTH')
+      expect(error.option).toBe('width')
+      expect(error.value).toBe(-1)
+    })
+
+    it('keeps the cause', () => {
+      const cause = new Error('Inner.')
+      const error = new PixelPuppyError('INVALID_SIZES', 'Outer.', { cause })
+
+      expect(error.name).toBe('PixelPuppyError')
+      expect(error.cause).toBe(cause)
+    })
+  })
+
+  describe('codes', () => {
+    it.each([
+      [
+        () => buildImageUrl('', src),
+        MissingOptionError,
+        'MISSING_PROJECT',
+        'projectSlug'
+      ],
+      [
+        () => buildImageUrl(project, ''),
+        MissingOptionError,
+        'MISSING_SOURCE',
+        'originalImageUrl'
+      ],
+      [
+        () => buildImageUrl(project, '/images/hero.jpg'),
+        PixelPuppyError,
+        'UNRESOLVABLE_RELATIVE_URL',
+        'baseUrl'
+      ],
+      [
+        () => buildImageUrl(project, src, { format: 'bmp' as any }),
+        InvalidOptionError,
+        'INVALID_FORMAT',
+        'format'
+      ],
+      [
+        () => buildImageUrl(project, src, { width: -100 }),
+        InvalidOptionError,
+        'INVALID_WIDTH',
+        'width'
+      ],
+      [
+        () => buildImageUrl(project, src, { focusX: 0.5 }),
+        InvalidOptionError,
+        'INVALID_FOCAL_POINT',
+        'focusX'
+      ],
+      [
+        () => buildImageUrl(project, src, { brightness: 200 }),
+        InvalidOptionError,
+        'INVALID_EFFECT',
+        'brightness'
+      ],
+      [
+        () => getResponsiveImageAttributes(project, src, { sizes: '50vh' }),
+        InvalidOptionError,
+        'INVALID_SIZES',
+        'sizes'
+      ],
+      [
+        () =>
+          getResponsiveImageAttributes(project, src, { strategy: 'density' }),
+        MissingOptionError,
+        'MISSING_WIDTH',
+        'width'
+      ],
+      [
+        () => createPixelPuppy({ project: '' }),
+        MissingOptionError,
+        'MISSING_PROJECT',
+        'project'
+      ]
+    ])('throws %#', (fn, errorClass, code, option) => {
+      const error = catchError(fn)
+
+      expect(error).toBeInstanceOf(errorClass)
+      expect(error).toMatchObject({ code, option })
+    })
+
+    it('attaches the offending value', () => {
+      const error = catchError(() =>
+        buildImageUrl(project, src, { quality: 150 })
+      )
+
+      expect(error).toMatchObject({
+        code: 'INVALID_QUALITY',
+        option: 'quality',
+        value: 150
+      })
+    })
+
+    it('rejects async functions with a coded error', async () => {
+      await expect(
+        signImageUrl(buildImageUrl(project, src))
+      ).rejects.toMatchObject({
+        code: 'MISSING_SIGNING_SECRET',
+        option: 'signingSecret'
+      })
+    })
+  })
+
+  describe('production builds', () => {
+    const nodeEnv = process.env.NODE_ENV
+
+    afterEach(() => {
+      process.env.NODE_ENV = nodeEnv
+    })
+
+    it('keeps the message', () => {
+      process.env.NODE_ENV = 'production'
+
+      expect(() => buildImageUrl('', src)).toThrow('projectSlug is required.')
+    })
+  })
+})
@@ -0,0 +1,157 @@
+/**
+ * Stable codes for the errors thrown by the library. Unlike messages, codes
+ * never change between releases, so they are safe to branch on and to group
+ * errors by.
+ */
+export const errorCodes = [
+  'MISSING_PROJECT',
+  'MISSING_SOURCE',
+  'UNRESOLVABLE_RELATIVE_URL',
+  'INVALID_FORMAT',
+  'INVALID_WIDTH',
+  'INVALID_HEIGHT',
+  'INVALID_ASPECT_RATIO',
+  'INVALID_FIT',
+  'INVALID_GRAVITY',
+  'INVALID_FOCAL_POINT',
+  'INVALID_QUALITY',
+  'INVALID_EFFECT',
+  'INVALID_INTRINSIC_SIZE',
+  'INVALID_STRATEGY',
+  'MISSING_WIDTH',
+  'MISSING_SIZES',
+  'INVALID_SIZES',
+  'INVALID_DENSITIES',
+  'INVALID_BREAKPOINTS',
+  'INVALID_FORMATS',
+  'INVALID_PLACEHOLDER',
+  'INVALID_ART_DIRECTION',
+  'INVALID_FETCH_PRIORITY',
+  'MISSING_SIGNING_SECRET',
+  'INVALID_EXPIRES_AT',
+  'CRYPTO_UNAVAILABLE',
+  'INVALID_POLICY',
+  'INVALID_ENDPOINT',
+  'INVALID_URL_STYLE'
+] as const
+
+/**
+ * A stable error code
+ */
+export type PixelPuppyErrorCode = (typeof errorCodes)[number]
+
+/**
+ * A single problem found while validating options
+ */
+export interface ValidationIssue {
+  /**
+   * The stable error code, the same one the matching error would have
+   */
+  code: PixelPuppyErrorCode
+  /**
+   * A human readable description of the problem
+   */
+  message: string
+  /**
+   * The path of the offending option, e.g. 'width' or 'rules[1].media'
+   */
+  path: string
+  /**
+   * The offending value
+   */
+  value?: unknown
+}
+
+/**
+ * Details attached to a Pixel Puppy error
+ */
+export interface PixelPuppyErrorOptions {
+  /**
+   * The underlying error, if any
+   */
+  cause?: unknown
+  /**
+   * The name of the argument or option the error is about, e.g. 'width' or
+   * 'focusX'
+   */
+  option?: string
+  /**
+   * The offending value
+   */
+  value?: unknown
+}
+
+/**
+ * Base class for every error thrown by the library.
+ *
+ * @example
+ * try {
+ *   buildImageUrl('my-project', src, { width })
+ * } catch (error) {
+ *   if (error instanceof PixelPuppyError && error.code === 'INVALID_WIDTH') {
+ *     // Fall back to the original size
+ *   }
+ * }
+ */
+export class PixelPuppyError extends Error {
+  /**
+   * The stable error code
+   */
+  readonly code: PixelPuppyErrorCode
+  /**
+   * The name of the argument or option the error is about
+   */
+  readonly option?: string
+  /**
+   * The offending value
+   */
+  readonly value?: unknown
+
+  constructor(
+    code: PixelPuppyErrorCode,
+    message: string,
+    options: PixelPuppyErrorOptions = {}
+  ) {
+    super(
+      message,
+      options.cause === undefined ? undefined : { cause: options.cause }
+    )
+
+    // Set explicitly, since minifiers rename classes
+    this.name = 'PixelPuppyError'
+    this.code = code
+    this.option = options.option
+    this.value = options.value
+  }
+}
+
+/**
+ * Thrown when a required argument or option is missing, such as the project
+ * or the source URL
+ */
+export class MissingOptionError extends PixelPuppyError {
+  constructor(
+    code: PixelPuppyErrorCode,
+    message: string,
+    options: PixelPuppyErrorOptions = {}
+  ) {
+    super(code, message, options)
+
+    this.name = 'MissingOptionError'
+  }
+}
+
+/**
+ * Thrown when an argument or option has an unsupported value
+ */
+export class InvalidOptionError extends PixelPuppyError {
+  constructor(
+    code: PixelPuppyErrorCode,
+    message: string,
+    options: PixelPuppyErrorOptions = {}
+  ) {
+    super(code, message, options)
+
+    this.name = 'InvalidOptionError'
+  }
+}
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest'
+
+import {
+  defaultQualities,
+  imageFormats,
+  isImageFormat,
+  supportedFormatsText
+} from './formats'
+
+describe('formats', () => {
+  describe('isImageFormat', () => {
+    it.each(imageFormats)('returns true for %s', (format) => {
+      expect(isImageFormat(format)).toBe(true)
+    })
+
+    it.each(['bmp', 'jpg', 'WEBP', '', undefined])(
+      'returns false for %s',
+      (format) => {
+        expect(isImageFormat(format)).toBe(false)
+      }
+    )
+  })
+
+  describe('defaultQualities', () => {
+    it('has an entry for every format', () => {
+      expect(Object.keys(defaultQualities).sort()).toEqual(
+        [...imageFormats].sort()
+      )
+    })
+
+    it('has no default quality for lossless formats', () => {
+      expect(defaultQualities.png).toBeUndefined()
+      expect(defaultQualities.gif).toBeUndefined()
+    })
+  })
+
+  describe('supportedFormatsText', () => {
+    it('lists every format', () => {
+      expect(supportedFormatsText).toBe('webp, png, avif, jpeg and gif')
+    })
+  })
+})
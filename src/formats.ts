@@ -0,0 +1,46 @@
+/**
+ * Image formats supported by the Pixel Puppy service
+ */
+export const imageFormats = ['webp', 'png', 'avif', 'jpeg', 'gif'] as const
+
+/**
+ * An image format supported by the Pixel Puppy service
+ */
+export type ImageFormat = (typeof imageFormats)[number]
+
+/**
+ * The quality the service applies to each format when none is requested.
+ * Lossless formats have no default quality.
+ */
+export const defaultQualities: Readonly<
+  Record<ImageFormat, number | undefined>
+> = Object.freeze({
+  avif: 50,
+  gif: undefined,
+  jpeg: 80,
+  png: undefined,
+  webp: 80
+})
+
+/**
+ * The MIME type of each format, e.g. for the type attribute of picture sources
+ */
+export const mimeTypes: Readonly<Record<ImageFormat, string>> = Object.freeze({
+  avif: 'image/avif',
+  gif: 'image/gif',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp'
+})
+
+/**
+ * Checks if a value is a supported image format
+ */
+export function isImageFormat(value: unknown): value is ImageFormat {
+  return imageFormats.includes(value as ImageFormat)
+}
+
+/**
+ * Human readable list of the supported formats, e.g. for error messages
+ */
+export const supportedFormatsText = `${imageFormats.slice(0, -1).join(', ')} and ${imageFormats[imageFormats.length - 1]}`
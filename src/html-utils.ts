@@ -0,0 +1,10 @@
+/**
+ * Escapes a value for use inside a double-quoted HTML attribute.
+ */
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/"/g, '&quot;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+}
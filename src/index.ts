@@ -1,16 +1,136 @@
+export {
+  getArtDirectedSources,
+  type ArtDirectedAttributes,
+  type ArtDirectedSource,
+  type ArtDirectionRule
+} from './art-direction'
+
+export {
+  getBackgroundImageStyles,
+  type BackgroundImageOptions,
+  type BackgroundImageStyle,
+  type BackgroundImageStyles
+} from './background'
+
+export {
+  generateBreakpoints,
+  maxBreakpointCount,
+  type BreakpointRange
+} from './breakpoints'
+
+export {
+  createPixelPuppy,
+  type PixelPuppyClient,
+  type PixelPuppyClientOptions
+} from './client'
+
 export {
   configure,
+  defaultEndpoint,
   getConfig,
   resetConfig,
   type PixelPuppyConfig
 } from './config'
 
+export { type FitMode, type Gravity } from './dimensions'
+
+export {
+  errorCodes,
+  InvalidOptionError,
+  MissingOptionError,
+  PixelPuppyError,
+  type PixelPuppyErrorCode,
+  type PixelPuppyErrorOptions,
+  type ValidationIssue
+} from './errors'
+
+export { type FlipDirection, type ImageEffects, type Rotation } from './effects'
+
+export {
+  defaultQualities,
+  imageFormats,
+  isImageFormat,
+  mimeTypes,
+  type ImageFormat
+} from './formats'
+
+export {
+  parseImageUrl,
+  type ParsedImageUrl,
+  type ParseImageUrlFailure,
+  type ParseImageUrlOptions,
+  type ParseImageUrlResult
+} from './parse'
+
+export { urlStyles, type UrlStyle } from './path-urls'
+
+export {
+  getPictureAttributes,
+  type PictureAttributes,
+  type PictureOptions,
+  type PictureSource
+} from './picture'
+
+export {
+  getPlaceholder,
+  placeholderStrategies,
+  type Placeholder,
+  type PlaceholderOptions,
+  type PlaceholderStrategy,
+  type PlaceholderStyle
+} from './placeholder'
+
+export {
+  fetchPriorities,
+  getPreloadLink,
+  type FetchPriority,
+  type PreloadLink,
+  type PreloadLinkAttributes,
+  type PreloadOptions
+} from './preload'
+
 export {
+  defaultDensities,
+  defaultDeviceBreakpoints,
+  defaultImageBreakpoints,
   getResponsiveImageAttributes,
+  responsiveStrategies,
   type ResponsiveImageAttributes,
-  type ResponsiveImageOptions
+  type ResponsiveImageOptions,
+  type ResponsiveStrategy
 } from './responsive'
 
-export { buildImageUrl, type TransformationOptions } from './urls'
+export { getSizesRange, type SizesRange, type SizesRangeOptions } from './sizes'
 
-export { isRelativeUrl, resolveUrl } from './url-utils'
+export {
+  buildSignedImageUrl,
+  getSignedResponsiveImageAttributes,
+  signImageUrl,
+  verifyImageUrl,
+  type SignedResponsiveImageOptions,
+  type SignedTransformationOptions,
+  type SigningOptions,
+  type VerifyOptions
+} from './signing'
+
+export {
+  buildImageUrl,
+  safeBuildImageUrl,
+  type SafeBuildImageUrlResult,
+  type TransformationOptions
+} from './urls'
+
+export {
+  defaultTrackingParams,
+  isRelativeUrl,
+  normalizeSourceUrl,
+  resolveUrl,
+  type SourceNormalizationOptions
+} from './url-utils'
+
+export {
+  invalidOptionPolicies,
+  validateTransformationOptions,
+  type InvalidOptionPolicy,
+  type ValidationResult
+} from './validation'
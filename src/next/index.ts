@@ -0,0 +1,9 @@
+export {
+  createPixelPuppyLoader,
+  getNextImagesConfig,
+  type NextImageLoader,
+  type NextImageLoaderProps,
+  type NextImagesConfig,
+  type NextImagesConfigOptions,
+  type PixelPuppyLoaderOptions
+} from './loader'
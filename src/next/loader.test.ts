@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest'
+
+import { buildImageUrl } from '../urls'
+import { createPixelPuppyLoader, getNextImagesConfig } from './loader'
+
+describe('createPixelPuppyLoader', () => {
+  const src = 'https://example.com/image.jpg'
+
+  it('builds a URL for the requested width', () => {
+    const loader = createPixelPuppyLoader({ project: 'test-project' })
+
+    expect(loader({ src, width: 640 })).toBe(
+      buildImageUrl('test-project', src, { width: 640 })
+    )
+  })
+
+  it('uses the configured format and quality', () => {
+    const loader = createPixelPuppyLoader({
+      project: 'test-project',
+      format: 'avif',
+      quality: 40
+    })
+
+    const result = loader({ src, width: 640 })
+
+    expect(result).toContain('format=avif')
+    expect(result).toContain('quality=40')
+  })
+
+  it('prefers the quality passed by next/image', () => {
+    const loader = createPixelPuppyLoader({
+      project: 'test-project',
+      format: 'jpeg',
+      quality: 40
+    })
+
+    expect(loader({ src, width: 640, quality: 90 })).toContain('quality=90')
+  })
+
+  it('resolves relative URLs with the baseUrl', () => {
+    const loader = createPixelPuppyLoader({
+      project: 'test-project',
+      baseUrl: 'https://example.com'
+    })
+
+    expect(loader({ src: '/images/hero.jpg', width: 640 })).toContain(
+      'url=https%3A%2F%2Fexample.com%2Fimages%2Fhero.jpg'
+    )
+  })
+
+  it('throws error when project is missing', () => {
+    expect(() => createPixelPuppyLoader({ project: '' })).toThrow(
+      'project is required'
+    )
+  })
+})
+
+describe('getNextImagesConfig', () => {
+  it('matches the default responsive breakpoints', () => {
+    expect(getNextImagesConfig()).toEqual({
+      deviceSizes: [480, 640, 750, 828, 1080, 1200, 1920, 2048, 3840],
+      imageSizes: [16, 32, 48, 64, 96, 128, 256, 384]
+    })
+  })
+
+  it('switches to the custom loader when a loader file is given', () => {
+    const config = getNextImagesConfig({
+      loaderFile: './pixel-puppy-loader.ts'
+    })
+
+    expect(config.loader).toBe('custom')
+    expect(config.loaderFile).toBe('./pixel-puppy-loader.ts')
+  })
+
+  it('sorts and deduplicates custom breakpoints', () => {
+    const config = getNextImagesConfig({
+      deviceBreakpoints: [1200, 640, 1200],
+      imageBreakpoints: [64, 32]
+    })
+
+    expect(config.deviceSizes).toEqual([640, 1200])
+    expect(config.imageSizes).toEqual([32, 64])
+  })
+})
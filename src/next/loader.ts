@@ -0,0 +1,118 @@
+import { createPixelPuppy, type PixelPuppyClientOptions } from '../client'
+import {
+  defaultDeviceBreakpoints,
+  defaultImageBreakpoints
+} from '../responsive'
+
+/**
+ * The arguments Next.js passes to a custom image loader
+ */
+export interface NextImageLoaderProps {
+  quality?: number
+  src: string
+  width: number
+}
+
+/**
+ * A Next.js image loader function
+ */
+export type NextImageLoader = (props: NextImageLoaderProps) => string
+
+/**
+ * Options for creating a Next.js image loader
+ */
+export type PixelPuppyLoaderOptions = Pick<
+  PixelPuppyClientOptions,
+  'baseUrl' | 'endpoint' | 'format' | 'project' | 'quality' | 'urlStyle'
+>
+
+/**
+ * Options for generating the Next.js images config
+ */
+export interface NextImagesConfigOptions {
+  /**
+   * Custom device width breakpoints
+   * @default [480, 640, 750, 828, 1080, 1200, 1920, 2048, 3840]
+   */
+  deviceBreakpoints?: readonly number[]
+  /**
+   * Custom image width breakpoints
+   * @default [16, 32, 48, 64, 96, 128, 256, 384]
+   */
+  imageBreakpoints?: readonly number[]
+  /**
+   * Path to the file that default-exports the loader, relative to the
+   * project root. When provided, the config switches Next.js to the custom
+   * loader.
+   */
+  loaderFile?: string
+}
+
+/**
+ * The images section of a Next.js config
+ */
+export interface NextImagesConfig {
+  deviceSizes: number[]
+  imageSizes: number[]
+  loader?: 'custom'
+  loaderFile?: string
+}
+
+/**
+ * Creates a Next.js image loader that serves images through Pixel Puppy.
+ *
+ * Next.js calls the loader once for every width in its deviceSizes and
+ * imageSizes, so the generated srcset follows the Next.js breakpoints. The
+ * quality passed to next/image takes precedence over the default quality.
+ *
+ * @param options - The project and default settings
+ * @returns A loader for next/image
+ *
+ * @example
+ * // pixel-puppy-loader.ts
+ * export default createPixelPuppyLoader({
+ *   project: 'my-project',
+ *   baseUrl: process.env.NEXT_PUBLIC_BASE_URL,
+ *   format: 'avif',
+ *   quality: 60
+ * })
+ */
+export function createPixelPuppyLoader(
+  options: PixelPuppyLoaderOptions
+): NextImageLoader {
+  const client = createPixelPuppy(options)
+
+  return ({ src, width, quality }) => client.url(src, { quality, width })
+}
+
+/**
+ * Generates the images section of a Next.js config whose breakpoints match
+ * the breakpoints used by getResponsiveImageAttributes.
+ *
+ * @param options - Optional breakpoints and loader file
+ * @returns The images config for next.config.js
+ *
+ * @example
+ * // next.config.mjs
+ * export default {
+ *   images: getNextImagesConfig({ loaderFile: './pixel-puppy-loader.ts' })
+ * }
+ */
+export function getNextImagesConfig(
+  options: NextImagesConfigOptions = {}
+): NextImagesConfig {
+  const {
+    deviceBreakpoints = defaultDeviceBreakpoints,
+    imageBreakpoints = defaultImageBreakpoints,
+    loaderFile
+  } = options
+
+  const sortUnique = (values: readonly number[]) =>
+    Array.from(new Set(values)).sort((a, b) => a - b)
+
+  return {
+    deviceSizes: sortUnique(deviceBreakpoints),
+    imageSizes: sortUnique(imageBreakpoints),
+    ...(loaderFile ? { loader: 'custom' as const, loaderFile } : {})
+  }
+}
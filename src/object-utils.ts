@@ -0,0 +1,9 @@
+/**
+ * Removes keys whose value is undefined so they don't override defaults
+ * when spread.
+ */
+export function withoutUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, entry]) => entry !== undefined)
+  ) as Partial<T>
+}
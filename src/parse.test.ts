@@ -0,0 +1,462 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+import { configure, resetConfig } from './config'
+import { parseImageUrl } from './parse'
+import {
+  buildImageUrl,
+  safeBuildImageUrl,
+  type TransformationOptions
+} from './urls'
+
+describe('parseImageUrl', () => {
+  const projectSlug = 'test-project'
+  const imageUrl = 'https://example.com/image.jpg'
+
+  describe('basic functionality', () => {
+    it('parses project, source URL and options', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&format=png&width=800'
+      )
+
+      expect(result).toEqual({
+        success: true,
+        project: 'test-project',
+        sourceUrl: 'https://example.com/image.jpg',
+        options: { format: 'png', width: 800 }
+      })
+    })
+
+    it('omits width when not present', () => {
+      const result = parseImageUrl(buildImageUrl(projectSlug, imageUrl))
+
+      expect(result.success).toBe(true)
+      if (result.success) {
+        expect(result.options).toEqual({ format: 'webp' })
+      }
+    })
+
+    it('decodes source URLs with query strings', () => {
+      const source = 'https://example.com/image.jpg?foo=bar&baz=qux'
+      const result = parseImageUrl(buildImageUrl(projectSlug, source))
+
+      expect(result.success && result.sourceUrl).toBe(source)
+    })
+  })
+
+  describe('round-tripping', () => {
+    const cases = [
+      { url: imageUrl, options: {} },
+      { url: imageUrl, options: { width: 800 } },
+      { url: imageUrl, options: { format: 'png' as const, width: 1200 } },
+      {
+        url: imageUrl,
+        options: {
+          width: 400,
+          height: 300,
+          aspectRatio: '4:3',
+          fit: 'cover' as const
+        }
+      },
+      { url: imageUrl, options: { aspectRatio: 1.5 } },
+      { url: imageUrl, options: { width: 800, withoutEnlargement: true } },
+      {
+        url: imageUrl,
+        options: { width: 400, aspectRatio: '1:1', gravity: 'face' as const }
+      },
+      { url: imageUrl, options: { focusX: 0.3, focusY: 0.75 } },
+      {
+        url: imageUrl,
+        options: {
+          rotate: 'auto' as const,
+          flip: 'both' as const,
+          blur: 4,
+          sharpen: 2,
+          grayscale: true,
+          brightness: -15,
+          contrast: 30
+        }
+      },
+      { url: imageUrl, options: { format: 'avif' as const, quality: 35 } },
+      {
+        url: 'https://images.ctfassets.net/k0lk9kiuza3o/o2HGgowwA0pGWLzVj5p2U/021d2a8973d8d88bdf61f478a06c26be/Extension-Feature_image.png?w=1984&h=1483&q=85',
+        options: { width: 640 }
+      }
+    ]
+
+    it.each(cases)('round-trips $url with $options', ({ url, options }) => {
+      const built = buildImageUrl(projectSlug, url, options)
+      const parsed = parseImageUrl(built)
+
+      expect(parsed.success).toBe(true)
+      if (parsed.success) {
+        expect(
+          buildImageUrl(parsed.project, parsed.sourceUrl, parsed.options)
+        ).toBe(built)
+      }
+    })
+
+    it('round-trips every URL that buildImageUrl accepts', () => {
+      // A fixed seed keeps failures reproducible
+      let seed = 42
+      const random = () => {
+        seed = (seed * 1103515245 + 12345) % 2147483648
+        return seed / 2147483648
+      }
+      const pick = <T>(values: readonly T[]): T =>
+        values[Math.floor(random() * values.length)] as T
+
+      const values: Record<string, readonly unknown[]> = {
+        width: [1, 640, 1.5, 0, -1, Infinity, 1e21],
+        height: [1, 480, 2.25, -Infinity],
+        aspectRatio: [1.5, 0.1 + 0.2, '16:9', '4 : 3', 1e-7],
+        fit: ['cover', 'inside'],
+        withoutEnlargement: [true, false],
+        gravity: ['north', 'face'],
+        focusX: [0, 0.3, 1 / 3],
+        focusY: [1, 0.75],
+        quality: [1, 60, 55.5, 100],
+        blur: [1, 2.5, 100],
+        brightness: [-100, -0.5, 0, 42],
+        rotate: [0, 90, 'auto'],
+        format: ['png', 'avif', 'jpeg']
+      }
+
+      for (let run = 0; run < 500; run++) {
+        const options = Object.fromEntries(
+          Object.entries(values)
+            .filter(() => random() < 0.4)
+            .map(([key, candidates]) => [key, pick(candidates)])
+        ) as TransformationOptions
+        const urlStyle = pick(['query', 'path'] as const)
+        const built = safeBuildImageUrl(projectSlug, imageUrl, {
+          ...options,
+          urlStyle
+        })
+
+        if (!built.success) {
+          continue
+        }
+
+        const parsed = parseImageUrl(built.url)
+
+        expect(
+          parsed,
+          `${built.url} from ${JSON.stringify(options)}`
+        ).toMatchObject({
+          success: true
+        })
+        if (parsed.success) {
+          expect(
+            buildImageUrl(parsed.project, parsed.sourceUrl, parsed.options)
+          ).toBe(built.url)
+        }
+      }
+    })
+  })
+
+  describe('endpoints', () => {
+    const endpoint = 'https://images.example.com/api/image'
+
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('recognises URLs from the configured endpoint', () => {
+      configure({ endpoint })
+
+      const result = parseImageUrl(
+        buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      )
+
+      expect(result).toEqual({
+        success: true,
+        project: 'test-project',
+        sourceUrl: imageUrl,
+        options: { format: 'webp', width: 800 }
+      })
+    })
+
+    it('keeps recognising the default endpoint', () => {
+      const built = buildImageUrl(projectSlug, imageUrl)
+
+      configure({ endpoint })
+
+      expect(parseImageUrl(built).success).toBe(true)
+    })
+
+    it('recognises URLs from the endpoint option', () => {
+      const built = buildImageUrl(projectSlug, imageUrl, { endpoint })
+
+      expect(parseImageUrl(built).success).toBe(false)
+      expect(parseImageUrl(built, { endpoint })).toMatchObject({
+        success: true,
+        options: { endpoint }
+      })
+    })
+
+    it('round-trips URLs from another endpoint', () => {
+      const built = buildImageUrl(projectSlug, imageUrl, {
+        endpoint,
+        width: 800
+      })
+      const parsed = parseImageUrl(built, { endpoint })
+
+      expect(parsed.success).toBe(true)
+      if (parsed.success) {
+        expect(
+          buildImageUrl(parsed.project, parsed.sourceUrl, parsed.options)
+        ).toBe(built)
+      }
+    })
+
+    it('fails for an invalid endpoint option', () => {
+      expect(
+        parseImageUrl(buildImageUrl(projectSlug, imageUrl), {
+          endpoint: 'not a url'
+        })
+      ).toEqual({ success: false, error: 'Invalid endpoint.' })
+    })
+  })
+
+  describe('path-style URLs', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('parses path-style URLs', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image/p/test-project/w_800,f_webp/https/example.com/image.jpg'
+      )
+
+      expect(result).toEqual({
+        success: true,
+        project: 'test-project',
+        sourceUrl: imageUrl,
+        options: { format: 'webp', urlStyle: 'path', width: 800 }
+      })
+    })
+
+    it('leaves out the url style when it is the configured one', () => {
+      configure({ urlStyle: 'path' })
+
+      const result = parseImageUrl(buildImageUrl(projectSlug, imageUrl))
+
+      expect(result).toMatchObject({ success: true, options: {} })
+      expect(result.success && result.options.urlStyle).toBeUndefined()
+    })
+
+    it('round-trips every option', () => {
+      const options = {
+        aspectRatio: '16:9',
+        blur: 5,
+        brightness: 1.2,
+        flip: 'horizontal',
+        focusX: 0.3,
+        focusY: 0.7,
+        format: 'avif',
+        grayscale: true,
+        quality: 40,
+        rotate: 90,
+        urlStyle: 'path',
+        width: 800,
+        withoutEnlargement: true
+      } as const
+
+      for (const source of [imageUrl, 'https://example.com/a b.jpg?v=2&x=1']) {
+        const built = buildImageUrl(projectSlug, source, options)
+        const parsed = parseImageUrl(built)
+
+        expect(parsed.success).toBe(true)
+        if (parsed.success) {
+          expect(parsed.sourceUrl).toBe(source)
+          expect(
+            buildImageUrl(parsed.project, parsed.sourceUrl, parsed.options)
+          ).toBe(built)
+        }
+      }
+    })
+
+    it('recognises path-style URLs from the endpoint option', () => {
+      const endpoint = 'https://images.example.com'
+      const built = buildImageUrl(projectSlug, imageUrl, {
+        endpoint,
+        urlStyle: 'path'
+      })
+
+      expect(parseImageUrl(built, { endpoint })).toMatchObject({
+        success: true,
+        options: { endpoint, urlStyle: 'path' }
+      })
+    })
+
+    it('fails for invalid paths', () => {
+      expect(
+        parseImageUrl(
+          'https://pixelpuppy.io/api/image/p/test-project/x_1/https/example.com/image.jpg'
+        )
+      ).toEqual({ success: false, error: 'Invalid transformation "x_1".' })
+      expect(
+        parseImageUrl('https://pixelpuppy.io/api/image/p/test-project')
+      ).toEqual({ success: false, error: 'Missing transformation segment.' })
+    })
+  })
+
+  describe('failures', () => {
+    it('fails for invalid URLs', () => {
+      expect(parseImageUrl('not a url')).toEqual({
+        success: false,
+        error: 'Invalid URL.'
+      })
+    })
+
+    it('fails for non-Pixel Puppy URLs', () => {
+      expect(parseImageUrl(imageUrl)).toEqual({
+        success: false,
+        error: 'Not a Pixel Puppy URL.'
+      })
+    })
+
+    it('fails when project is missing', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?url=https%3A%2F%2Fexample.com%2Fimage.jpg'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Missing project parameter.'
+      })
+    })
+
+    it('fails when url is missing', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Missing url parameter.'
+      })
+    })
+
+    it('fails for an invalid withoutEnlargement value', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&withoutEnlargement=yes'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid withoutEnlargement "yes".'
+      })
+    })
+
+    it('fails for unsupported formats', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&format=bmp'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Unsupported format "bmp".'
+      })
+    })
+
+    it('fails for invalid heights', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&height=abc'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid height "abc".'
+      })
+    })
+
+    it('fails for invalid aspect ratios', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&aspectRatio=wide'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid aspect ratio "wide".'
+      })
+    })
+
+    it('fails for unsupported fits', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&fit=stretch'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Unsupported fit "stretch".'
+      })
+    })
+
+    it('fails for unsupported gravities', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&gravity=up'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Unsupported gravity "up".'
+      })
+    })
+
+    it('fails for invalid focal points', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&focusX=2&focusY=0.5'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid focusX "2".'
+      })
+    })
+
+    it('fails for invalid effects', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&rotate=45'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid rotate "45".'
+      })
+    })
+
+    it('fails for out-of-range effects', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&blur=500'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Blur must be between 1 and 100.'
+      })
+    })
+
+    it('fails for invalid qualities', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&quality=150'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid quality "150".'
+      })
+    })
+
+    it('fails for invalid widths', () => {
+      const result = parseImageUrl(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&width=-5'
+      )
+
+      expect(result).toEqual({
+        success: false,
+        error: 'Invalid width "-5".'
+      })
+    })
+  })
+})
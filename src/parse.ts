@@ -0,0 +1,290 @@
+import {
+  defaultEndpoint,
+  getEndpoint,
+  getUrlStyle,
+  normalizeEndpoint
+} from './config'
+import { parseEffectParams } from './effects'
+import { isImageFormat } from './formats'
+import {
+  fitModes,
+  getAspectRatioValue,
+  gravities,
+  type FitMode,
+  type Gravity
+} from './dimensions'
+import { fromPathUrl, type UrlStyle } from './path-urls'
+import type { TransformationOptions } from './urls'
+
+/**
+ * A Pixel Puppy URL broken down into its parts
+ */
+export interface ParsedImageUrl {
+  /**
+   * The transformation options encoded in the URL
+   */
+  options: TransformationOptions
+  /**
+   * The Pixel Puppy project identifier
+   */
+  project: string
+  /**
+   * The URL of the original image
+   */
+  sourceUrl: string
+  success: true
+}
+
+/**
+ * Returned when a URL is not a valid Pixel Puppy URL
+ */
+export interface ParseImageUrlFailure {
+  /**
+   * Describes why the URL could not be parsed
+   */
+  error: string
+  success: false
+}
+
+/**
+ * Options for parsing a Pixel Puppy URL
+ */
+export interface ParseImageUrlOptions {
+  /**
+   * An additional endpoint to recognise, e.g. a staging instance. URLs from
+   * the configured endpoint and the default endpoint are always recognised.
+   */
+  endpoint?: string
+}
+
+/**
+ * Result of parsing a URL with parseImageUrl
+ */
+export type ParseImageUrlResult = ParsedImageUrl | ParseImageUrlFailure
+
+function failure(error: string): ParseImageUrlFailure {
+  return { error, success: false }
+}
+
+/**
+ * Parses a Pixel Puppy URL back into its project, source URL and
+ * transformation options.
+ *
+ * The result round-trips with buildImageUrl, so passing the parsed parts back
+ * in produces the exact same URL. This makes it possible to derive variants
+ * from a URL that was stored earlier.
+ *
+ * Both query-style and path-style URLs from the configured endpoint, the
+ * default endpoint and the endpoint option are recognised. When the URL uses
+ * another endpoint or style than buildImageUrl would, the parsed options
+ * include it.
+ *
+ * @param url - The URL to parse
+ * @param parseOptions - The endpoint to recognise in addition to the configured one
+ * @returns The parsed parts, or a failure when the URL is not a Pixel Puppy URL
+ *
+ * @example
+ * const parsed = parseImageUrl(
+ *   'https://pixelpuppy.io/api/image?project=my-project&url=https%3A%2F%2Fexample.com%2Fphoto.jpg&format=webp&width=800'
+ * )
+ *
+ * if (parsed.success) {
+ *   // Same image, different width
+ *   buildImageUrl(parsed.project, parsed.sourceUrl, {
+ *     ...parsed.options,
+ *     width: 400
+ *   })
+ * }
+ */
+export function parseImageUrl(
+  url: string,
+  parseOptions: ParseImageUrlOptions = {}
+): ParseImageUrlResult {
+  let parsedUrl: URL
+  let endpoints: string[]
+
+  try {
+    parsedUrl = new URL(url)
+  } catch {
+    return failure('Invalid URL.')
+  }
+
+  try {
+    endpoints = [
+      getEndpoint(),
+      defaultEndpoint,
+      ...(parseOptions.endpoint
+        ? [normalizeEndpoint(parseOptions.endpoint)]
+        : [])
+    ]
+  } catch {
+    return failure('Invalid endpoint.')
+  }
+
+  const location = `${parsedUrl.origin}${parsedUrl.pathname}`
+  const pathEndpoint = endpoints.find((candidate) =>
+    location.startsWith(`${candidate}/p/`)
+  )
+  let endpoint: string
+  let params: URLSearchParams
+  let urlStyle: UrlStyle
+
+  if (pathEndpoint) {
+    const pathParams = fromPathUrl(location.slice(`${pathEndpoint}/p/`.length))
+
+    if (typeof pathParams === 'string') {
+      return failure(pathParams)
+    }
+
+    endpoint = pathEndpoint
+    params = pathParams
+    urlStyle = 'path'
+  } else {
+    endpoint = location.replace(/\/+$/, '')
+    params = parsedUrl.searchParams
+    urlStyle = 'query'
+
+    if (!endpoints.includes(endpoint)) {
+      return failure('Not a Pixel Puppy URL.')
+    }
+  }
+
+  const project = params.get('project')
+  const sourceUrl = params.get('url')
+
+  if (!project) {
+    return failure('Missing project parameter.')
+  }
+
+  if (!sourceUrl) {
+    return failure('Missing url parameter.')
+  }
+
+  const options: TransformationOptions = {}
+
+  // Keeps the endpoint and style when rebuilding the URL would otherwise
+  // change them
+  if (endpoint !== getEndpoint()) {
+    options.endpoint = endpoint
+  }
+
+  if (urlStyle !== getUrlStyle()) {
+    options.urlStyle = urlStyle
+  }
+
+  const format = params.get('format')
+
+  if (format !== null) {
+    if (!isImageFormat(format)) {
+      return failure(`Unsupported format "${format}".`)
+    }
+
+    options.format = format
+  }
+
+  const width = params.get('width')
+
+  if (width !== null) {
+    const parsedWidth = Number(width)
+
+    if (!Number.isInteger(parsedWidth) || parsedWidth <= 0) {
+      return failure(`Invalid width "${width}".`)
+    }
+
+    options.width = parsedWidth
+  }
+
+  const height = params.get('height')
+
+  if (height !== null) {
+    const parsedHeight = Number(height)
+
+    if (!Number.isInteger(parsedHeight) || parsedHeight <= 0) {
+      return failure(`Invalid height "${height}".`)
+    }
+
+    options.height = parsedHeight
+  }
+
+  const aspectRatio = params.get('aspectRatio')
+
+  if (aspectRatio !== null) {
+    const value = /[:/]/.test(aspectRatio) ? aspectRatio : Number(aspectRatio)
+
+    if (Number.isNaN(getAspectRatioValue(value))) {
+      return failure(`Invalid aspect ratio "${aspectRatio}".`)
+    }
+
+    options.aspectRatio = value
+  }
+
+  const fit = params.get('fit')
+
+  if (fit !== null) {
+    if (!fitModes.includes(fit as FitMode)) {
+      return failure(`Unsupported fit "${fit}".`)
+    }
+
+    options.fit = fit as FitMode
+  }
+
+  const withoutEnlargement = params.get('withoutEnlargement')
+
+  if (withoutEnlargement !== null) {
+    if (withoutEnlargement !== 'true') {
+      return failure(`Invalid withoutEnlargement "${withoutEnlargement}".`)
+    }
+
+    options.withoutEnlargement = true
+  }
+
+  const gravity = params.get('gravity')
+
+  if (gravity !== null) {
+    if (!gravities.includes(gravity as Gravity)) {
+      return failure(`Unsupported gravity "${gravity}".`)
+    }
+
+    options.gravity = gravity as Gravity
+  }
+
+  for (const key of ['focusX', 'focusY'] as const) {
+    const value = params.get(key)
+
+    if (value !== null) {
+      const parsedValue = Number(value)
+
+      if (value === '' || !(parsedValue >= 0 && parsedValue <= 1)) {
+        return failure(`Invalid ${key} "${value}".`)
+      }
+
+      options[key] = parsedValue
+    }
+  }
+
+  const quality = params.get('quality')
+
+  if (quality !== null) {
+    const parsedQuality = Number(quality)
+
+    if (
+      !Number.isInteger(parsedQuality) ||
+      parsedQuality < 1 ||
+      parsedQuality > 100
+    ) {
+      return failure(`Invalid quality "${quality}".`)
+    }
+
+    options.quality = parsedQuality
+  }
+
+  const effects = parseEffectParams(params)
+
+  if (typeof effects === 'string') {
+    return failure(effects)
+  }
+
+  Object.assign(options, effects)
+
+  return { options, project, sourceUrl, success: true }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect } from 'vitest'
+
+import { decodeSource, encodeSource, fromPathUrl, toPathUrl } from './path-urls'
+
+describe('path-urls', () => {
+  const endpoint = 'https://pixelpuppy.io/api/image'
+
+  describe('encodeSource', () => {
+    it('keeps plain URLs readable', () => {
+      expect(encodeSource('https://example.com/photos/image.jpg')).toBe(
+        'https/example.com/photos/image.jpg'
+      )
+      expect(encodeSource('http://example.com:8080/image.jpg')).toBe(
+        'http/example.com:8080/image.jpg'
+      )
+    })
+
+    it('uses base64url for sources with a query string', () => {
+      expect(encodeSource('https://example.com/photo.jpg?v=2')).toBe(
+        'b64/aHR0cHM6Ly9leGFtcGxlLmNvbS9waG90by5qcGc_dj0y'
+      )
+    })
+
+    it('uses base64url for sources that would not survive as a path', () => {
+      for (const source of [
+        'https://example.com/photo.jpg#top',
+        'https://example.com//photo.jpg',
+        'https://example.com/a/../photo.jpg',
+        'https://example.com/my photo.jpg',
+        'data:image/png;base64,AAAA'
+      ]) {
+        expect(encodeSource(source)).toMatch(/^b64\/[\w-]+$/)
+      }
+    })
+  })
+
+  describe('decodeSource', () => {
+    it('round-trips encoded sources', () => {
+      for (const source of [
+        'https://example.com/photos/image.jpg',
+        'https://example.com/photo.jpg?v=2&w=10',
+        'https://example.com/bilder/smörgås.jpg?ä=ö',
+        'https://example.com/a/../photo.jpg'
+      ]) {
+        expect(decodeSource(encodeSource(source))).toBe(source)
+      }
+    })
+
+    it('returns null for invalid sources', () => {
+      expect(decodeSource('')).toBeNull()
+      expect(decodeSource('https')).toBeNull()
+      expect(decodeSource('ftp/example.com/image.jpg')).toBeNull()
+      expect(decodeSource('b64/not base64')).toBeNull()
+      expect(decodeSource('b64/_w')).toBeNull()
+    })
+  })
+
+  describe('toPathUrl', () => {
+    it('uses short names in a fixed order', () => {
+      const params = new URLSearchParams({
+        project: 'my project',
+        url: 'https://example.com/image.jpg',
+        format: 'webp',
+        quality: '60',
+        width: '800',
+        aspectRatio: '16:9'
+      })
+
+      expect(toPathUrl(endpoint, params)).toBe(
+        `${endpoint}/p/my%20project/w_800,ar_16:9,f_webp,q_60/https/example.com/image.jpg`
+      )
+    })
+  })
+
+  describe('fromPathUrl', () => {
+    it('reads the parameters back', () => {
+      const result = fromPathUrl(
+        'my%20project/w_800,ar_16:9,f_webp/b64/aHR0cHM6Ly9leGFtcGxlLmNvbS9waG90by5qcGc_dj0y'
+      )
+
+      expect(result).toBeInstanceOf(URLSearchParams)
+      expect(Object.fromEntries(result as URLSearchParams)).toEqual({
+        project: 'my project',
+        url: 'https://example.com/photo.jpg?v=2',
+        width: '800',
+        aspectRatio: '16:9',
+        format: 'webp'
+      })
+    })
+
+    it('describes invalid paths', () => {
+      expect(fromPathUrl('')).toBe('Missing project segment.')
+      expect(fromPathUrl('my-project')).toBe('Missing transformation segment.')
+      expect(fromPathUrl('my-project/f_webp')).toBe('Invalid source segment.')
+      expect(fromPathUrl('my-project/x_1/https/example.com/a.jpg')).toBe(
+        'Invalid transformation "x_1".'
+      )
+      expect(fromPathUrl('my-project/w_1,w_2/https/example.com/a.jpg')).toBe(
+        'Invalid transformation "w_2".'
+      )
+      expect(fromPathUrl('my-project/w_%E0/https/example.com/a.jpg')).toBe(
+        'Invalid path encoding.'
+      )
+    })
+  })
+})
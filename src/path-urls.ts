@@ -0,0 +1,196 @@
+/**
+ * Supported URL styles:
+ * - 'query': `{endpoint}?project=x&url=...&format=webp&width=800`
+ * - 'path': `{endpoint}/p/x/w_800,f_webp/https/example.com/photo.jpg`
+ */
+export const urlStyles = ['query', 'path'] as const
+
+/**
+ * How the project, transformations and source are laid out in the URL
+ */
+export type UrlStyle = (typeof urlStyles)[number]
+
+/**
+ * The short name of each query parameter in the transformation segment of
+ * path-style URLs, in the order they are serialized
+ */
+const pathParamNames: Readonly<Record<string, string>> = Object.freeze({
+  width: 'w',
+  height: 'h',
+  aspectRatio: 'ar',
+  fit: 'fit',
+  withoutEnlargement: 'we',
+  gravity: 'g',
+  focusX: 'fx',
+  focusY: 'fy',
+  format: 'f',
+  quality: 'q',
+  rotate: 'r',
+  flip: 'fl',
+  blur: 'bl',
+  sharpen: 'sh',
+  grayscale: 'gs',
+  brightness: 'br',
+  contrast: 'co'
+})
+
+const queryParamNames: Readonly<Record<string, string>> = Object.freeze(
+  Object.fromEntries(
+    Object.entries(pathParamNames).map(([query, path]) => [path, query])
+  )
+)
+
+/**
+ * Marks a source encoded with base64url rather than kept readable
+ */
+const base64Marker = 'b64'
+
+/**
+ * Sources that can stay readable: http(s) URLs without a query string or
+ * fragment whose host and path only use characters that are safe in a path,
+ * and without empty segments, which proxies tend to collapse
+ */
+const plainSourcePattern =
+  /^(https?):\/\/([\w\-.~%!$&'()*+;=:@]+(?:\/[\w\-.~%!$&'()*+,;=:@]+)*\/?)$/
+
+function encodeValue(value: string): string {
+  return value.replace(/[^\w\-.~:]/g, (character) =>
+    encodeURIComponent(character)
+  )
+}
+
+function toBase64Url(value: string): string {
+  const binary = Array.from(new TextEncoder().encode(value), (byte) =>
+    String.fromCharCode(byte)
+  ).join('')
+
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(value: string): string | null {
+  if (!/^[\w-]+$/.test(value)) {
+    return null
+  }
+
+  try {
+    const binary = atob(value.replace(/-/g, '+').replace(/_/g, '/'))
+    const bytes = Uint8Array.from(binary, (character) =>
+      character.charCodeAt(0)
+    )
+
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Encodes a source URL for the end of a path-style URL.
+ *
+ * Plain http(s) URLs stay readable, with the scheme as the first segment.
+ * Anything else, such as a source with a query string, is encoded with
+ * base64url so the CDN cannot reorder or drop parts of it.
+ *
+ * @example
+ * encodeSource('https://example.com/photo.jpg')
+ * // 'https/example.com/photo.jpg'
+ *
+ * encodeSource('https://example.com/photo.jpg?v=2')
+ * // 'b64/aHR0cHM6Ly9leGFtcGxlLmNvbS9waG90by5qcGc_dj0y'
+ */
+export function encodeSource(source: string): string {
+  const match = plainSourcePattern.exec(source)
+
+  // Dot segments would be resolved away when the URL is requested
+  if (match && !/(^|\/)\.\.?(\/|$)/.test(match[2] ?? '')) {
+    return `${match[1]}/${match[2]}`
+  }
+
+  return `${base64Marker}/${toBase64Url(source)}`
+}
+
+/**
+ * Decodes a source encoded with encodeSource, or returns null when it is not
+ * a valid encoded source
+ */
+export function decodeSource(encoded: string): string | null {
+  const separator = encoded.indexOf('/')
+  const scheme = encoded.slice(0, separator)
+  const rest = encoded.slice(separator + 1)
+
+  if (separator === -1 || !rest) {
+    return null
+  }
+
+  if (scheme === base64Marker) {
+    return fromBase64Url(rest)
+  }
+
+  if (scheme === 'http' || scheme === 'https') {
+    return `${scheme}://${rest}`
+  }
+
+  return null
+}
+
+/**
+ * Lays out the parameters of a query-style URL as a path-style URL
+ */
+export function toPathUrl(endpoint: string, params: URLSearchParams): string {
+  const project = params.get('project') ?? ''
+  const source = params.get('url') ?? ''
+
+  const transformations = Object.entries(pathParamNames)
+    .filter(([name]) => params.has(name))
+    .map(([name, short]) => `${short}_${encodeValue(params.get(name) ?? '')}`)
+    .join(',')
+
+  return `${endpoint}/p/${encodeURIComponent(project)}/${transformations}/${encodeSource(source)}`
+}
+
+/**
+ * Reads the path after `/p/` back into the parameters of a query-style URL,
+ * returning a description of the problem when the path is not valid
+ */
+export function fromPathUrl(path: string): URLSearchParams | string {
+  const [project, transformations, ...sourceSegments] = path.split('/')
+
+  if (!project) {
+    return 'Missing project segment.'
+  }
+
+  if (!transformations) {
+    return 'Missing transformation segment.'
+  }
+
+  const source = decodeSource(sourceSegments.join('/'))
+
+  if (source === null) {
+    return 'Invalid source segment.'
+  }
+
+  const params = new URLSearchParams()
+
+  try {
+    params.append('project', decodeURIComponent(project))
+    params.append('url', source)
+
+    for (const transformation of transformations.split(',')) {
+      const separator = transformation.indexOf('_')
+      const name = queryParamNames[transformation.slice(0, separator)]
+
+      if (separator === -1 || !name || params.has(name)) {
+        return `Invalid transformation "${transformation}".`
+      }
+
+      params.append(
+        name,
+        decodeURIComponent(transformation.slice(separator + 1))
+      )
+    }
+  } catch {
+    return 'Invalid path encoding.'
+  }
+
+  return params
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest'
+
+import { getPictureAttributes } from './picture'
+import { getResponsiveImageAttributes } from './responsive'
+
+describe('getPictureAttributes', () => {
+  const project = 'test-project'
+  const src = 'https://example.com/image.jpg'
+
+  describe('sources', () => {
+    it('creates one source per format except the fallback', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'webp', 'png']
+      })
+
+      expect(result.sources.map((source) => source.type)).toEqual([
+        'image/avif',
+        'image/webp'
+      ])
+    })
+
+    it('uses avif and webp by default', () => {
+      const result = getPictureAttributes(project, src)
+
+      expect(result.sources.map((source) => source.type)).toEqual([
+        'image/avif'
+      ])
+      expect(result.img.src).toContain('format=webp')
+    })
+
+    it('uses the format for every candidate of a source', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'jpeg']
+      })
+
+      const entries = result.sources[0]?.srcSet.split(', ') ?? []
+      expect(entries.length).toBeGreaterThan(0)
+      entries.forEach((entry) => {
+        expect(entry).toContain('format=avif')
+      })
+    })
+
+    it('reuses the responsive breakpoint strategy', () => {
+      const options = { sizes: '(min-width: 768px) 50vw, 100vw' }
+      const result = getPictureAttributes(project, src, {
+        ...options,
+        formats: ['webp', 'png']
+      })
+
+      const expected = getResponsiveImageAttributes(project, src, {
+        ...options,
+        format: 'webp'
+      })
+
+      expect(result.sources[0]).toEqual({
+        type: 'image/webp',
+        srcSet: expected.srcSet,
+        sizes: expected.sizes
+      })
+    })
+
+    it('uses the single URL as srcSet in non-responsive mode', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'png'],
+        width: 800,
+        responsive: false
+      })
+
+      expect(result.sources[0]?.srcSet).toContain('format=avif&width=800')
+      expect(result.sources[0]?.sizes).toBeUndefined()
+    })
+
+    it('returns no sources for a single format', () => {
+      const result = getPictureAttributes(project, src, { formats: ['png'] })
+
+      expect(result.sources).toEqual([])
+      expect(result.img.src).toContain('format=png')
+    })
+  })
+
+  describe('invalid options', () => {
+    it('returns only the fallback img for the original image', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'webp', 'jpeg'],
+        width: 800,
+        quality: 0,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result.sources).toEqual([])
+      expect(result.img.src).toBe(src)
+    })
+
+    it('keeps the sources when invalid options are dropped', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'jpeg'],
+        width: 800,
+        quality: 0,
+        onInvalid: 'drop-option'
+      })
+
+      expect(result.sources.map((source) => source.type)).toEqual([
+        'image/avif'
+      ])
+    })
+  })
+
+  describe('fallback img', () => {
+    it('uses the last format for the img attributes', () => {
+      const result = getPictureAttributes(project, src, {
+        formats: ['avif', 'webp', 'png'],
+        width: 800
+      })
+
+      expect(result.img).toEqual(
+        getResponsiveImageAttributes(project, src, {
+          width: 800,
+          format: 'png'
+        })
+      )
+    })
+  })
+
+  describe('validation', () => {
+    it('throws error when formats is empty', () => {
+      expect(() => getPictureAttributes(project, src, { formats: [] })).toThrow(
+        'formats must contain at least one format'
+      )
+    })
+
+    it('throws error for invalid formats', () => {
+      expect(() =>
+        getPictureAttributes(project, src, { formats: ['bmp' as any, 'png'] })
+      ).toThrow('Invalid format')
+    })
+  })
+})
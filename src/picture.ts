@@ -0,0 +1,152 @@
+import { getDefaultClient } from './client'
+import { InvalidOptionError } from './errors'
+import { mimeTypes, type ImageFormat } from './formats'
+import { parseImageUrl } from './parse'
+import {
+  createResponsiveImageAttributes,
+  type ResponsiveImageAttributes,
+  type ResponsiveImageOptions
+} from './responsive'
+
+/**
+ * Default formats for picture elements, from most to least preferred
+ */
+const defaultPictureFormats: ImageFormat[] = ['avif', 'webp']
+
+/**
+ * Options for generating picture element attributes
+ */
+export interface PictureOptions extends Omit<ResponsiveImageOptions, 'format'> {
+  /**
+   * The formats to offer, from most to least preferred.
+   * The last format is used for the fallback img element.
+   * @default ['avif', 'webp']
+   */
+  formats?: ImageFormat[]
+}
+
+/**
+ * Attributes for a single source element inside a picture element
+ */
+export interface PictureSource {
+  /**
+   * The sizes attribute value (not present for non-responsive mode)
+   */
+  sizes?: string
+  /**
+   * The srcset attribute value with image candidates in this format
+   */
+  srcSet: string
+  /**
+   * The MIME type of the format, so browsers can skip unsupported sources
+   */
+  type: string
+}
+
+/**
+ * Generated attributes for a picture element
+ */
+export interface PictureAttributes {
+  /**
+   * Attributes for the fallback img element, in the last format
+   */
+  img: ResponsiveImageAttributes
+  /**
+   * Source elements in order of preference
+   */
+  sources: PictureSource[]
+}
+
+/**
+ * Generates attributes for a picture element with one source per format.
+ *
+ * Every format uses the same breakpoint strategy as
+ * getResponsiveImageAttributes. The last format becomes the fallback img, the
+ * formats before it become source elements in the given order. When the
+ * 'fallback-to-original' policy returns the original image, there are no
+ * sources, only the fallback img.
+ *
+ * @param project - The Pixel Puppy project identifier
+ * @param src - The original image URL
+ * @param options - Picture options (formats plus any responsive image options)
+ * @returns The ordered sources and the fallback img attributes
+ *
+ * @throws {InvalidOptionError} INVALID_FORMATS when formats is empty
+ * @throws {PixelPuppyError} Any error of getResponsiveImageAttributes for the responsive image options
+ *
+ * @example
+ * const picture = getPictureAttributes('my-project', 'https://example.com/image.jpg', {
+ *   formats: ['avif', 'webp', 'png'],
+ *   sizes: '(min-width: 768px) 50vw, 100vw'
+ * })
+ * // Returns: {
+ * //   sources: [
+ * //     { type: 'image/avif', srcSet: '...', sizes: '(min-width: 768px) 50vw, 100vw' },
+ * //     { type: 'image/webp', srcSet: '...', sizes: '(min-width: 768px) 50vw, 100vw' }
+ * //   ],
+ * //   img: { src: '...', srcSet: '...', sizes: '(min-width: 768px) 50vw, 100vw' }
+ * // }
+ */
+export function getPictureAttributes(
+  project: string,
+  src: string,
+  options: PictureOptions = {}
+): PictureAttributes {
+  return getDefaultClient(project).picture(src, options)
+}
+
+/**
+ * Generates the attributes behind getPictureAttributes and a client's
+ * picture()
+ */
+export function createPictureAttributes(
+  project: string,
+  src: string,
+  options: PictureOptions = {}
+): PictureAttributes {
+  const { formats = defaultPictureFormats, ...responsiveOptions } = options
+
+  if (formats.length === 0) {
+    throw new InvalidOptionError(
+      'INVALID_FORMATS',
+      'formats must contain at least one format.',
+      { option: 'formats', value: formats }
+    )
+  }
+
+  // formats is not empty, so the last format is always defined
+  const img = createResponsiveImageAttributes(project, src, {
+    ...responsiveOptions,
+    format: formats[formats.length - 1]
+  })
+
+  const sources = formats.slice(0, -1).flatMap((format) => {
+    const attributes = createResponsiveImageAttributes(project, src, {
+      ...responsiveOptions,
+      format
+    })
+
+    // The 'fallback-to-original' policy returns the original image, which is
+    // not in this format, so a typed source would mislead the browser
+    if (
+      !parseImageUrl(attributes.src, { endpoint: responsiveOptions.endpoint })
+        .success
+    ) {
+      return []
+    }
+
+    return [
+      {
+        type: mimeTypes[format],
+        // Non-responsive mode has no srcset, so the single URL stands in for it
+        srcSet: attributes.srcSet || attributes.src,
+        ...(attributes.sizes ? { sizes: attributes.sizes } : {})
+      }
+    ]
+  })
+
+  return {
+    img,
+    sources
+  }
+}
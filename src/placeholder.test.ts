@@ -0,0 +1,135 @@
+import { describe, it, expect } from 'vitest'
+
+import { getPlaceholder } from './placeholder'
+import { buildImageUrl } from './urls'
+
+describe('getPlaceholder', () => {
+  const project = 'test-project'
+  const src = 'https://example.com/image.jpg'
+
+  describe('strategies', () => {
+    it('uses the blur strategy by default', () => {
+      const result = getPlaceholder(project, src)
+
+      expect(result?.url).toBe(
+        buildImageUrl(project, src, { blur: 10, quality: 20, width: 16 })
+      )
+    })
+
+    it('builds a single pixel for the dominant-color strategy', () => {
+      const result = getPlaceholder(project, src, {
+        strategy: 'dominant-color'
+      })
+
+      expect(result?.url).toBe(
+        buildImageUrl(project, src, {
+          fit: 'cover',
+          height: 1,
+          quality: 20,
+          width: 1
+        })
+      )
+    })
+
+    it('builds a small unblurred image for the tiny strategy', () => {
+      const result = getPlaceholder(project, src, { strategy: 'tiny' })
+
+      expect(result?.url).toBe(
+        buildImageUrl(project, src, { quality: 20, width: 32 })
+      )
+      expect(result?.url).not.toContain('blur=')
+    })
+
+    it('throws error for unsupported strategies', () => {
+      expect(() =>
+        getPlaceholder(project, src, { strategy: 'sketch' as any })
+      ).toThrow(
+        'Invalid placeholder strategy. Supported strategies are blur, dominant-color and tiny.'
+      )
+    })
+  })
+
+  describe('transformation options', () => {
+    it('keeps the crop of the real image', () => {
+      const result = getPlaceholder(project, src, {
+        aspectRatio: '16:9',
+        gravity: 'face'
+      })
+
+      expect(result?.url).toContain('aspectRatio=16%3A9')
+      expect(result?.url).toContain('gravity=face')
+    })
+
+    it('ignores the aspect ratio for the dominant-color strategy', () => {
+      const result = getPlaceholder(project, src, {
+        aspectRatio: '16:9',
+        strategy: 'dominant-color'
+      })
+
+      expect(result?.url).not.toContain('aspectRatio')
+    })
+
+    it('resolves relative URLs with baseUrl', () => {
+      const result = getPlaceholder(project, '/images/hero.jpg', {
+        baseUrl: 'https://example.com'
+      })
+
+      expect(result?.url).toContain(
+        'url=https%3A%2F%2Fexample.com%2Fimages%2Fhero.jpg'
+      )
+    })
+  })
+
+  describe('invalid options', () => {
+    it('returns no placeholder for the original image', () => {
+      const result = getPlaceholder(project, src, {
+        format: 'bmp' as any,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result).toBeUndefined()
+    })
+
+    it('returns a placeholder when invalid options are dropped', () => {
+      const result = getPlaceholder(project, src, {
+        format: 'bmp' as any,
+        onInvalid: 'drop-option'
+      })
+
+      expect(result?.url).toBe(getPlaceholder(project, src)?.url)
+    })
+  })
+
+  describe('styles', () => {
+    it('returns background styles for the placeholder', () => {
+      const result = getPlaceholder(project, src)
+
+      expect(result?.style).toEqual({
+        backgroundImage: `url('${result?.url}')`,
+        backgroundPosition: 'center',
+        backgroundRepeat: 'no-repeat',
+        backgroundSize: 'cover'
+      })
+    })
+
+    it('returns the same styles as a CSS string', () => {
+      const result = getPlaceholder(project, src)
+
+      expect(result?.css).toBe(
+        `background-image: url('${result?.url}'); background-position: center; background-repeat: no-repeat; background-size: cover`
+      )
+    })
+
+    it('escapes single quotes in the placeholder URL', () => {
+      const result = getPlaceholder(project, "https://example.com/o'hare.jpg", {
+        urlStyle: 'path'
+      })
+
+      expect(result?.url).toContain("/https/example.com/o'hare.jpg")
+      expect(result?.style.backgroundImage).toBe(
+        `url('${result?.url.replace("o'hare", "o\\'hare")}')`
+      )
+      expect(result?.css).not.toContain('"')
+    })
+  })
+})
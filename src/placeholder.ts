@@ -0,0 +1,157 @@
+import { getDefaultClient } from './client'
+import { InvalidOptionError } from './errors'
+import { parseImageUrl } from './parse'
+import { createImageUrl, type TransformationOptions } from './urls'
+
+/**
+ * Supported placeholder strategies
+ */
+export const placeholderStrategies = ['blur', 'dominant-color', 'tiny'] as const
+
+/**
+ * How the placeholder preview is generated:
+ * - 'blur': a tiny image blurred by Pixel Puppy, for a soft preview
+ * - 'dominant-color': a single pixel stretched to fill the box
+ * - 'tiny': a tiny unblurred image
+ */
+export type PlaceholderStrategy = (typeof placeholderStrategies)[number]
+
+/**
+ * Options for generating a placeholder
+ */
+export interface PlaceholderOptions
+  extends Omit<TransformationOptions, 'height' | 'quality' | 'width'> {
+  /**
+   * How the placeholder preview is generated
+   * @default 'blur'
+   */
+  strategy?: PlaceholderStrategy
+}
+
+/**
+ * Inline styles that show the placeholder as the element's background.
+ * The keys are camelCased so the object can be passed directly to the style
+ * prop in React and Vue.
+ */
+export interface PlaceholderStyle {
+  backgroundImage: string
+  backgroundPosition: string
+  backgroundRepeat: string
+  backgroundSize: string
+}
+
+/**
+ * A generated placeholder
+ */
+export interface Placeholder {
+  /**
+   * The styles as a CSS declaration string, for plain HTML style attributes.
+   * It contains no double quotes, so it fits in a double-quoted attribute.
+   */
+  css: string
+  /**
+   * The styles as an object, for React and Vue style props
+   */
+  style: PlaceholderStyle
+  /**
+   * The URL of the placeholder image
+   */
+  url: string
+}
+
+const placeholderQuality = 20
+
+const strategyOptions: Record<PlaceholderStrategy, TransformationOptions> = {
+  blur: { blur: 10, quality: placeholderQuality, width: 16 },
+  'dominant-color': {
+    aspectRatio: undefined,
+    fit: 'cover',
+    height: 1,
+    quality: placeholderQuality,
+    width: 1
+  },
+  tiny: { quality: placeholderQuality, width: 32 }
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/[A-Z]/g, (letter) => `-${letter.toLowerCase()}`)
+}
+
+/**
+ * Generates a low-quality image placeholder (LQIP) to show while the real
+ * image loads.
+ *
+ * The placeholder is a very small, heavily compressed Pixel Puppy URL of the
+ * same image, cropped the same way, plus inline styles that render it as a
+ * background. The blurring happens in Pixel Puppy rather than through a CSS
+ * filter, so the styles can go straight onto the img element without
+ * blurring the real image once it has loaded.
+ *
+ * @param project - The Pixel Puppy project identifier
+ * @param src - The original image URL
+ * @param options - The placeholder strategy and transformation options
+ * @returns The placeholder URL and inline styles, or undefined when the
+ *   'fallback-to-original' policy returns the full-size original image
+ *
+ * @example
+ * const placeholder = getPlaceholder('my-project', 'https://example.com/hero.jpg', {
+ *   strategy: 'blur',
+ *   aspectRatio: '16:9'
+ * })
+ *
+ * // <img src="..." style="${placeholder.css}">
+ */
+export function getPlaceholder(
+  project: string,
+  src: string,
+  options: PlaceholderOptions = {}
+): Placeholder | undefined {
+  return getDefaultClient(project).placeholder(src, options)
+}
+
+/**
+ * Generates the placeholder behind getPlaceholder and a client's
+ * placeholder()
+ */
+export function createPlaceholder(
+  project: string,
+  src: string,
+  options: PlaceholderOptions = {}
+): Placeholder | undefined {
+  const { strategy = 'blur', ...transformationOptions } = options
+
+  if (!placeholderStrategies.includes(strategy)) {
+    throw new InvalidOptionError(
+      'INVALID_PLACEHOLDER',
+      'Invalid placeholder strategy. Supported strategies are blur, dominant-color and tiny.',
+      { option: 'strategy', value: strategy }
+    )
+  }
+
+  const url = createImageUrl(project, src, {
+    ...transformationOptions,
+    ...strategyOptions[strategy]
+  })
+
+  // The original image is no placeholder, it is as heavy as the real image
+  if (
+    !parseImageUrl(url, { endpoint: transformationOptions.endpoint }).success
+  ) {
+    return undefined
+  }
+
+  // Single quotes keep the css string usable in double-quoted attributes.
+  // Path-style URLs may contain single quotes, so those are escaped.
+  const style: PlaceholderStyle = {
+    backgroundImage: `url('${url.replace(/'/g, "\\'")}')`,
+    backgroundPosition: 'center',
+    backgroundRepeat: 'no-repeat',
+    backgroundSize: 'cover'
+  }
+
+  const css = Object.entries(style)
+    .map(([property, value]) => `${toKebabCase(property)}: ${value}`)
+    .join('; ')
+
+  return { css, style, url }
+}
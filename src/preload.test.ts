@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest'
+
+import { getPreloadLink } from './preload'
+import { getResponsiveImageAttributes } from './responsive'
+
+describe('getPreloadLink', () => {
+  const project = 'test-project'
+  const src = 'https://example.com/hero.jpg'
+
+  describe('attributes', () => {
+    it('matches the img attributes for the same options', () => {
+      const options = { sizes: '(min-width: 768px) 50vw, 100vw', quality: 60 }
+      const image = getResponsiveImageAttributes(project, src, options)
+
+      expect(getPreloadLink(project, src, options).attributes).toEqual({
+        rel: 'preload',
+        as: 'image',
+        href: image.src,
+        imageSrcSet: image.srcSet,
+        imageSizes: image.sizes,
+        fetchPriority: 'high'
+      })
+    })
+
+    it('omits imageSizes for the density strategy', () => {
+      const result = getPreloadLink(project, src, {
+        width: 64,
+        strategy: 'density'
+      })
+
+      expect(result.attributes.imageSrcSet).toContain('2x')
+      expect(result.attributes).not.toHaveProperty('imageSizes')
+    })
+
+    it('only has href in non-responsive mode', () => {
+      const result = getPreloadLink(project, src, {
+        width: 800,
+        responsive: false
+      })
+
+      expect(result.attributes.href).toContain('width=800')
+      expect(result.attributes).not.toHaveProperty('imageSrcSet')
+      expect(result.attributes).not.toHaveProperty('imageSizes')
+    })
+
+    it('uses the given fetch priority', () => {
+      const result = getPreloadLink(project, src, { fetchPriority: 'low' })
+
+      expect(result.attributes.fetchPriority).toBe('low')
+      expect(result.html).toContain('fetchpriority="low"')
+      expect(result.header).toContain('fetchpriority=low')
+    })
+  })
+
+  describe('html', () => {
+    it('renders a link element with escaped attributes', () => {
+      const result = getPreloadLink(project, src, {
+        sizes: '100vw',
+        deviceBreakpoints: [640]
+      })
+      const image = getResponsiveImageAttributes(project, src, {
+        sizes: '100vw',
+        deviceBreakpoints: [640]
+      })
+      const escape = (value: string) => value.replace(/&/g, '&amp;')
+
+      expect(result.html).toBe(
+        `<link rel="preload" as="image" href="${escape(image.src)}" imagesrcset="${escape(image.srcSet)}" imagesizes="100vw" fetchpriority="high">`
+      )
+    })
+  })
+
+  describe('header', () => {
+    it('renders a Link header value', () => {
+      const result = getPreloadLink(project, src, {
+        sizes: '100vw',
+        deviceBreakpoints: [640]
+      })
+      const { href, imageSrcSet } = result.attributes
+
+      expect(result.header).toBe(
+        `<${href}>; rel=preload; as=image; imagesrcset="${imageSrcSet}"; imagesizes="100vw"; fetchpriority=high`
+      )
+    })
+
+    it('leaves out srcset parameters in non-responsive mode', () => {
+      const result = getPreloadLink(project, src, { responsive: false })
+
+      expect(result.header).toBe(
+        `<${result.attributes.href}>; rel=preload; as=image; fetchpriority=high`
+      )
+    })
+  })
+
+  describe('validation', () => {
+    it('throws error for an invalid fetch priority', () => {
+      expect(() =>
+        getPreloadLink(project, src, { fetchPriority: 'urgent' as any })
+      ).toThrow(
+        'Invalid fetch priority. Supported priorities are high, low and auto.'
+      )
+    })
+
+    it('throws error for invalid responsive options', () => {
+      expect(() =>
+        getPreloadLink(project, src, { strategy: 'density' })
+      ).toThrow('width is required for the density strategy.')
+    })
+  })
+})
@@ -0,0 +1,171 @@
+import { getDefaultClient } from './client'
+import { InvalidOptionError } from './errors'
+import { escapeHtml } from './html-utils'
+import {
+  createResponsiveImageAttributes,
+  type ResponsiveImageOptions
+} from './responsive'
+
+/**
+ * Supported fetch priorities
+ */
+export const fetchPriorities = ['high', 'low', 'auto'] as const
+
+/**
+ * How urgently the browser should fetch the preloaded image
+ */
+export type FetchPriority = (typeof fetchPriorities)[number]
+
+/**
+ * Options for generating a preload link
+ */
+export interface PreloadOptions
+  extends Omit<ResponsiveImageOptions, 'placeholder'> {
+  /**
+   * How urgently the browser should fetch the image. Preloads are usually
+   * for the largest contentful paint image, so this defaults to 'high'.
+   * @default 'high'
+   */
+  fetchPriority?: FetchPriority
+}
+
+/**
+ * Attributes of a preload link element, named like React's link props
+ */
+export interface PreloadLinkAttributes {
+  as: 'image'
+  fetchPriority: FetchPriority
+  /**
+   * The fallback URL, matching the img src
+   */
+  href: string
+  /**
+   * The sizes the srcset is chosen for (not present for the non-responsive
+   * and density strategies)
+   */
+  imageSizes?: string
+  /**
+   * The image candidates (not present for the non-responsive strategy)
+   */
+  imageSrcSet?: string
+  rel: 'preload'
+}
+
+/**
+ * A preload link in every form it can be sent in
+ */
+export interface PreloadLink {
+  /**
+   * The link attributes, e.g. for a React or Vue link element
+   */
+  attributes: PreloadLinkAttributes
+  /**
+   * The value of an HTTP Link header, e.g. for 103 Early Hints
+   */
+  header: string
+  /**
+   * The link element as an HTML string
+   */
+  html: string
+}
+
+const htmlAttributeNames: Record<keyof PreloadLinkAttributes, string> = {
+  as: 'as',
+  fetchPriority: 'fetchpriority',
+  href: 'href',
+  imageSizes: 'imagesizes',
+  imageSrcSet: 'imagesrcset',
+  rel: 'rel'
+}
+
+function toQuotedString(value: string): string {
+  return `"${value.replace(/[\\"]/g, '\\$&')}"`
+}
+
+/**
+ * Generates a preload link for an image.
+ *
+ * The srcset and sizes come from getResponsiveImageAttributes with the same
+ * options, so the preload matches the img element rendered with them and the
+ * browser reuses the preloaded candidate instead of downloading another one.
+ *
+ * @param project - The Pixel Puppy project identifier
+ * @param src - The original image URL
+ * @param options - The responsive image options of the img plus fetchPriority
+ * @returns The link as attributes, an HTML string and a Link header value
+ *
+ * @throws {InvalidOptionError} INVALID_FETCH_PRIORITY when fetchPriority is not a supported priority
+ * @throws {PixelPuppyError} Any error of getResponsiveImageAttributes for the responsive image options
+ *
+ * @example
+ * const preload = getPreloadLink('my-project', 'https://example.com/hero.jpg', {
+ *   sizes: '100vw'
+ * })
+ *
+ * // In the document head
+ * preload.html
+ * // <link rel="preload" as="image" href="..." imagesrcset="... 480w, ..." imagesizes="100vw" fetchpriority="high">
+ *
+ * // As a response header
+ * response.headers.append('Link', preload.header)
+ * // <...>; rel=preload; as=image; imagesrcset="... 480w, ..."; imagesizes="100vw"; fetchpriority=high
+ */
+export function getPreloadLink(
+  project: string,
+  src: string,
+  options: PreloadOptions = {}
+): PreloadLink {
+  return getDefaultClient(project).preload(src, options)
+}
+
+/**
+ * Generates the link behind getPreloadLink and a client's preload()
+ */
+export function createPreloadLink(
+  project: string,
+  src: string,
+  options: PreloadOptions = {}
+): PreloadLink {
+  const { fetchPriority = 'high', ...responsiveOptions } = options
+
+  if (!fetchPriorities.includes(fetchPriority)) {
+    throw new InvalidOptionError(
+      'INVALID_FETCH_PRIORITY',
+      'Invalid fetch priority. Supported priorities are high, low and auto.',
+      { option: 'fetchPriority', value: fetchPriority }
+    )
+  }
+
+  const image = createResponsiveImageAttributes(project, src, responsiveOptions)
+
+  const attributes: PreloadLinkAttributes = {
+    rel: 'preload',
+    as: 'image',
+    href: image.src,
+    ...(image.srcSet ? { imageSrcSet: image.srcSet } : {}),
+    ...(image.sizes ? { imageSizes: image.sizes } : {}),
+    fetchPriority
+  }
+
+  const html = Object.entries(attributes)
+    .map(
+      ([key, value]) =>
+        `${htmlAttributeNames[key as keyof PreloadLinkAttributes]}="${escapeHtml(value)}"`
+    )
+    .join(' ')
+
+  const header = [
+    `<${attributes.href}>`,
+    'rel=preload',
+    'as=image',
+    ...(attributes.imageSrcSet
+      ? [`imagesrcset=${toQuotedString(attributes.imageSrcSet)}`]
+      : []),
+    ...(attributes.imageSizes
+      ? [`imagesizes=${toQuotedString(attributes.imageSizes)}`]
+      : []),
+    `fetchpriority=${fetchPriority}`
+  ].join('; ')
+
+  return { attributes, header, html: `<link ${html}>` }
+}
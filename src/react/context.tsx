@@ -0,0 +1,87 @@
+import { createContext, useContext, useMemo, type ReactNode } from 'react'
+
+import {
+  createPixelPuppy,
+  type PixelPuppyClient,
+  type PixelPuppyClientOptions
+} from '../client'
+
+const PixelPuppyContext = createContext<PixelPuppyClient | null>(null)
+
+/**
+ * Props for the PixelPuppyProvider component. There is no signingSecret,
+ * since PixelPuppyImage never signs URLs and props can end up in the
+ * client-side bundle.
+ */
+export interface PixelPuppyProviderProps
+  extends Omit<PixelPuppyClientOptions, 'signingSecret'> {
+  children?: ReactNode
+}
+
+/**
+ * Provides a project, baseUrl and other defaults to every PixelPuppyImage
+ * rendered below it.
+ *
+ * @example
+ * <PixelPuppyProvider project="my-project" baseUrl="https://example.com">
+ *   <App />
+ * </PixelPuppyProvider>
+ */
+export function PixelPuppyProvider({
+  children,
+  baseUrl,
+  breakpoints,
+  deviceBreakpoints,
+  endpoint,
+  format,
+  imageBreakpoints,
+  normalizeSource,
+  onInvalid,
+  project,
+  quality,
+  urlStyle
+}: PixelPuppyProviderProps) {
+  const client = useMemo(
+    () =>
+      createPixelPuppy({
+        baseUrl,
+        breakpoints,
+        deviceBreakpoints,
+        endpoint,
+        format,
+        imageBreakpoints,
+        normalizeSource,
+        onInvalid,
+        project,
+        quality,
+        urlStyle
+      }),
+    [
+      baseUrl,
+      breakpoints,
+      deviceBreakpoints,
+      endpoint,
+      format,
+      imageBreakpoints,
+      normalizeSource,
+      onInvalid,
+      project,
+      quality,
+      urlStyle
+    ]
+  )
+
+  return (
+    <PixelPuppyContext.Provider value={client}>
+      {children}
+    </PixelPuppyContext.Provider>
+  )
+}
+
+/**
+ * Returns the client from the nearest PixelPuppyProvider, or null when there
+ * is none.
+ */
+export function usePixelPuppy(): PixelPuppyClient | null {
+  return useContext(PixelPuppyContext)
+}
@@ -0,0 +1,7 @@
+export {
+  PixelPuppyProvider,
+  usePixelPuppy,
+  type PixelPuppyProviderProps
+} from './context'
+
+export { PixelPuppyImage, type PixelPuppyImageProps } from './pixel-puppy-image'
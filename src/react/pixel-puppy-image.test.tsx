@@ -0,0 +1,324 @@
+import { createRef } from 'react'
+import { renderToStaticMarkup } from 'react-dom/server'
+import { describe, it, expect } from 'vitest'
+
+import { getResponsiveImageAttributes } from '../responsive'
+import type { PixelPuppyClientOptions } from '../client'
+import {
+  PixelPuppyProvider,
+  usePixelPuppy,
+  type PixelPuppyProviderProps
+} from './context'
+import { PixelPuppyImage } from './pixel-puppy-image'
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;')
+}
+
+describe('PixelPuppyImage', () => {
+  const src = 'https://example.com/image.jpg'
+
+  describe('rendering', () => {
+    it('renders responsive attributes', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt="Photo"
+          width={800}
+        />
+      )
+
+      const attributes = getResponsiveImageAttributes('test-project', src, {
+        width: 800
+      })
+
+      expect(html).toContain(`src="${escapeAttribute(attributes.src)}"`)
+      expect(html).toContain(`srcSet="${escapeAttribute(attributes.srcSet)}"`)
+      expect(html).toContain(`sizes="${attributes.sizes}"`)
+      expect(html).toContain('width="800"')
+      expect(html).toContain('alt="Photo"')
+    })
+
+    it('omits srcSet and sizes in non-responsive mode', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          width={800}
+          responsive={false}
+        />
+      )
+
+      expect(html).not.toContain('srcSet')
+      expect(html).not.toContain('sizes')
+      expect(html).toContain('width=800')
+      expect(html).toContain('width="800"')
+    })
+
+    it('forwards standard img props', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt="Photo"
+          className="rounded"
+          loading="lazy"
+          decoding="async"
+        />
+      )
+
+      expect(html).toContain('class="rounded"')
+      expect(html).toContain('loading="lazy"')
+      expect(html).toContain('decoding="async"')
+    })
+
+    it('does not forward transformation options as attributes', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          format="avif"
+          quality={40}
+          fit="cover"
+        />
+      )
+
+      expect(html).not.toContain(' project="')
+      expect(html).not.toContain('quality="40"')
+      expect(html).not.toContain('fit="cover"')
+      expect(html).toContain('format=avif')
+    })
+
+    it('applies effects without rendering them as attributes', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          blur={10}
+          grayscale
+        />
+      )
+
+      expect(html).toContain('blur=10&amp;grayscale=true')
+      expect(html).not.toContain(' blur="')
+      expect(html).not.toContain(' grayscale')
+    })
+
+    it('renders placeholder styles alongside the style prop', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          placeholder="dominant-color"
+          style={{ borderRadius: 8 }}
+        />
+      )
+
+      expect(html).toContain('background-image:url(&#x27;')
+      expect(html).toContain('background-size:cover')
+      expect(html).toContain('border-radius:8px')
+      expect(html).not.toContain(' placeholder="')
+    })
+
+    it('renders density descriptors without sizes', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          width={64}
+          strategy="density"
+          densities={[1, 2, 3]}
+        />
+      )
+
+      expect(html).toContain('width=192 3x')
+      expect(html).not.toContain('sizes=')
+      expect(html).not.toContain(' strategy="')
+      expect(html).not.toContain(' densities="')
+    })
+
+    it('caps candidates at the intrinsic width', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          width={800}
+          intrinsicWidth={1200}
+        />
+      )
+
+      expect(html).toContain('width=1200 1200w"')
+      expect(html).not.toContain('1920w')
+      expect(html).not.toContain('intrinsic')
+    })
+
+    it('renders the height attribute when known', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyImage
+          project="test-project"
+          src={src}
+          alt=""
+          width={800}
+          aspectRatio="16:9"
+        />
+      )
+
+      expect(html).toContain('height="450"')
+    })
+
+    it('accepts a ref', () => {
+      const ref = createRef<HTMLImageElement>()
+
+      expect(() =>
+        renderToStaticMarkup(
+          <PixelPuppyImage
+            ref={ref}
+            project="test-project"
+            src={src}
+            alt=""
+          />
+        )
+      ).not.toThrow()
+    })
+  })
+
+  describe('provider', () => {
+    it('uses project and baseUrl from the provider', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyProvider
+          project="provided-project"
+          baseUrl="https://example.com"
+        >
+          <PixelPuppyImage
+            src="/images/hero.jpg"
+            alt=""
+          />
+        </PixelPuppyProvider>
+      )
+
+      expect(html).toContain('project=provided-project')
+      expect(html).toContain('example.com%2Fimages%2Fhero.jpg')
+    })
+
+    it('uses provider defaults such as format', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyProvider
+          project="provided-project"
+          format="png"
+        >
+          <PixelPuppyImage
+            src={src}
+            alt=""
+          />
+        </PixelPuppyProvider>
+      )
+
+      expect(html).toContain('format=png')
+    })
+
+    it('uses the endpoint from the provider', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyProvider
+          project="provided-project"
+          endpoint="https://images.example.com/api/image"
+        >
+          <PixelPuppyImage
+            src={src}
+            alt=""
+          />
+        </PixelPuppyProvider>
+      )
+
+      expect(html).toContain('src="https://images.example.com/api/image?')
+      expect(html).not.toContain('pixelpuppy.io')
+    })
+
+    it('uses the onInvalid policy from the provider', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyProvider
+          project="provided-project"
+          onInvalid="fallback-to-original"
+        >
+          <PixelPuppyImage
+            src={src}
+            alt=""
+            width={-1}
+          />
+        </PixelPuppyProvider>
+      )
+
+      expect(html).toContain(`src="${src}"`)
+      expect(html).not.toContain('srcSet')
+    })
+
+    it('passes every client option to the client', () => {
+      // Typed as Required so a new client option fails here until it is
+      // passed through by the provider
+      const options: Required<Omit<PixelPuppyProviderProps, 'children'>> = {
+        baseUrl: 'https://example.com',
+        breakpoints: { min: 320, max: 1920 },
+        deviceBreakpoints: [640, 1280],
+        endpoint: 'https://images.example.com/api/image',
+        format: 'avif',
+        imageBreakpoints: [64, 128],
+        normalizeSource: true,
+        onInvalid: 'drop-option',
+        project: 'provided-project',
+        quality: 40,
+        urlStyle: 'path'
+      }
+      let received: Readonly<PixelPuppyClientOptions> | undefined
+
+      function Consumer() {
+        received = usePixelPuppy()?.getOptions()
+
+        return null
+      }
+
+      renderToStaticMarkup(
+        <PixelPuppyProvider {...options}>
+          <Consumer />
+        </PixelPuppyProvider>
+      )
+
+      expect(received).toEqual(options)
+    })
+
+    it('lets the project prop override the provider', () => {
+      const html = renderToStaticMarkup(
+        <PixelPuppyProvider
+          project="provided-project"
+          baseUrl="https://example.com"
+        >
+          <PixelPuppyImage
+            project="other-project"
+            src="/images/hero.jpg"
+            alt=""
+          />
+        </PixelPuppyProvider>
+      )
+
+      expect(html).toContain('project=other-project')
+      expect(html).not.toContain('project=provided-project')
+      expect(html).toContain('example.com%2Fimages%2Fhero.jpg')
+    })
+
+    it('throws error without project or provider', () => {
+      expect(() =>
+        renderToStaticMarkup(
+          <PixelPuppyImage
+            src={src}
+            alt=""
+          />
+        )
+      ).toThrow('project is required')
+    })
+  })
+})
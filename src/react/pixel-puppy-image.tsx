@@ -0,0 +1,143 @@
+import { forwardRef, type ImgHTMLAttributes } from 'react'
+
+import { createPixelPuppy } from '../client'
+import { omitEffects, pickEffects } from '../effects'
+import { MissingOptionError } from '../errors'
+import type { ResponsiveImageOptions } from '../responsive'
+import { usePixelPuppy } from './context'
+
+/**
+ * Props for the PixelPuppyImage component
+ */
+export interface PixelPuppyImageProps
+  extends Omit<
+      ImgHTMLAttributes<HTMLImageElement>,
+      'height' | 'onInvalid' | 'sizes' | 'src' | 'srcSet' | 'width'
+    >,
+    ResponsiveImageOptions {
+  /**
+   * The Pixel Puppy project identifier.
+   * Overrides the project from the nearest PixelPuppyProvider.
+   */
+  project?: string
+  /**
+   * The original image URL
+   */
+  src: string
+}
+
+/**
+ * Renders an img element with responsive Pixel Puppy attributes.
+ *
+ * Accepts every option of getResponsiveImageAttributes plus any standard img
+ * attribute. The project (and other defaults) can come from a
+ * PixelPuppyProvider or be passed directly. Renders without effects, so it
+ * works with server rendering.
+ *
+ * @example
+ * <PixelPuppyImage
+ *   src="/images/hero.jpg"
+ *   alt="Hero"
+ *   sizes="(min-width: 768px) 50vw, 100vw"
+ *   loading="lazy"
+ * />
+ */
+export const PixelPuppyImage = forwardRef<
+  HTMLImageElement,
+  PixelPuppyImageProps
+>(function PixelPuppyImage(
+  {
+    aspectRatio,
+    baseUrl,
+    breakpoints,
+    densities,
+    deviceBreakpoints,
+    endpoint,
+    fit,
+    focusX,
+    focusY,
+    format,
+    gravity,
+    height,
+    imageBreakpoints,
+    intrinsicHeight,
+    intrinsicWidth,
+    normalizeSource,
+    onInvalid,
+    placeholder,
+    project,
+    quality,
+    responsive,
+    sizes,
+    src,
+    strategy,
+    urlStyle,
+    width,
+    ...rest
+  },
+  ref
+) {
+  const imgProps = omitEffects(rest)
+
+  const contextClient = usePixelPuppy()
+
+  // A project prop that differs from the provider's gets its own client
+  // that still inherits the provider's defaults
+  const client =
+    project && project !== contextClient?.project
+      ? createPixelPuppy({ ...contextClient?.getOptions(), project })
+      : contextClient
+
+  if (!client) {
+    throw new MissingOptionError(
+      'MISSING_PROJECT',
+      'project is required. Pass a project prop or render inside a PixelPuppyProvider.',
+      { option: 'project' }
+    )
+  }
+
+  const attributes = client.responsive(src, {
+    ...pickEffects(rest),
+    aspectRatio,
+    baseUrl,
+    breakpoints,
+    densities,
+    deviceBreakpoints,
+    endpoint,
+    fit,
+    focusX,
+    focusY,
+    format,
+    gravity,
+    height,
+    imageBreakpoints,
+    intrinsicHeight,
+    intrinsicWidth,
+    normalizeSource,
+    onInvalid,
+    placeholder,
+    quality,
+    responsive,
+    sizes,
+    strategy,
+    urlStyle,
+    width
+  })
+
+  return (
+    <img
+      {...imgProps}
+      ref={ref}
+      src={attributes.src}
+      srcSet={attributes.srcSet || undefined}
+      sizes={attributes.sizes}
+      width={attributes.width ?? width}
+      height={attributes.height ?? height}
+      style={
+        attributes.style
+          ? { ...attributes.style, ...imgProps.style }
+          : imgProps.style
+      }
+    />
+  )
+})
@@ -1,7 +1,14 @@
 import { describe, expect, it, beforeEach } from 'vitest'
 
 import { configure, resetConfig } from './config'
-import { getResponsiveImageAttributes } from './responsive'
+import { getPlaceholder } from './placeholder'
+import {
+  defaultDensities,
+  defaultDeviceBreakpoints,
+  defaultImageBreakpoints,
+  getResponsiveImageAttributes
+} from './responsive'
+import { buildImageUrl } from './urls'
 
 describe('getResponsiveImageAttributes', () => {
   const project = 'test-project'
@@ -171,15 +178,15 @@ describe('getResponsiveImageAttributes', () => {
       expect(result.srcSet).toContain('999w')
     })
 
-    it('filters breakpoints based on smallest vw value', () => {
-      // 50vw on 480px device = 240px minimum
-      // Should exclude breakpoints smaller than 240
+    it('filters breakpoints based on the smallest rendered width', () => {
+      // 50vw only applies from 768px, so the smallest rendered width is 384px
+      // Should exclude breakpoints smaller than 384
       const result = getResponsiveImageAttributes(project, src, {
         sizes: '(min-width: 768px) 50vw, 100vw'
       })
 
-      // Should include breakpoints >= 240
-      expect(result.srcSet).toContain('256w')
+      // Should include breakpoints >= 384
+      expect(result.srcSet).toContain('384w')
       expect(result.srcSet).toContain('480w')
       expect(result.srcSet).toContain('640w')
       expect(result.srcSet).toContain('750w')
@@ -189,19 +196,50 @@ describe('getResponsiveImageAttributes', () => {
       expect(result.srcSet).not.toContain('32w')
       expect(result.srcSet).not.toContain('64w')
       expect(result.srcSet).not.toContain('128w')
+      expect(result.srcSet).not.toContain(' 256w')
     })
 
-    it('uses all breakpoints when sizes has no vw units', () => {
+    it('covers fixed pixel sizes from 1x to 3x', () => {
       const result = getResponsiveImageAttributes(project, src, {
         sizes: '(min-width: 768px) 500px, 300px'
       })
 
-      // Should include all device and image breakpoints
-      expect(result.srcSet).toContain('16w')
-      expect(result.srcSet).toContain('32w')
-      expect(result.srcSet).toContain('480w')
-      expect(result.srcSet).toContain('640w')
-      expect(result.srcSet).toContain('3840w')
+      // 300px at 1x up to 500px at 3x (1500px), plus the next breakpoint up
+      expect(result.srcSet).toContain('384w')
+      expect(result.srcSet).toContain('1200w')
+      expect(result.srcSet).toContain('1920w')
+      expect(result.srcSet).not.toContain(' 256w')
+      expect(result.srcSet).not.toContain('2048w')
+      expect(result.srcSet).not.toContain('3840w')
+    })
+
+    it('evaluates calc() lengths', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: 'calc(100px + 10vw)'
+      })
+
+      // 148px on the smallest viewport, 484px on the largest
+      expect(result.srcSet).toContain('256w')
+      expect(result.srcSet).toContain('1920w')
+      expect(result.srcSet).not.toContain('128w')
+      expect(result.srcSet).not.toContain('2048w')
+    })
+
+    it('uses the largest breakpoint when every breakpoint is too small', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        deviceBreakpoints: [200, 400],
+        imageBreakpoints: [],
+        sizes: '600px'
+      })
+
+      expect(result.srcSet).toMatch(/ 400w$/)
+      expect(result.srcSet).not.toContain('200w')
+    })
+
+    it('throws error for invalid sizes', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { sizes: '50vh' })
+      ).toThrow('Invalid sizes "50vh": unsupported unit "vh".')
     })
 
     it('includes device and image breakpoints', () => {
@@ -233,6 +271,138 @@ describe('getResponsiveImageAttributes', () => {
     })
   })
 
+  describe('Strategy 4: Density-based (strategy: density)', () => {
+    it('generates x-descriptors for the default densities', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 64,
+        strategy: 'density'
+      })
+
+      expect(result.srcSet).toBe(
+        [
+          `${buildImageUrl(project, src, { width: 64 })} 1x`,
+          `${buildImageUrl(project, src, { width: 128 })} 2x`
+        ].join(', ')
+      )
+      expect(result.src).toBe(buildImageUrl(project, src, { width: 64 }))
+      expect(result.width).toBe(64)
+      expect(result.sizes).toBeUndefined()
+    })
+
+    it('uses custom densities in ascending order', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 100,
+        strategy: 'density',
+        densities: [3, 1.5, 1, 3]
+      })
+
+      const descriptors = result.srcSet
+        .split(', ')
+        .map((entry) => entry.split(' ')[1])
+      expect(descriptors).toEqual(['1x', '1.5x', '3x'])
+      expect(result.srcSet).toContain('width=150 1.5x')
+    })
+
+    it('scales the height with every density', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 64,
+        height: 48,
+        strategy: 'density'
+      })
+
+      expect(result.srcSet).toContain('width=128&height=96 2x')
+      expect(result.height).toBe(48)
+    })
+
+    it('derives the height attribute from the aspect ratio', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 64,
+        aspectRatio: '1:1',
+        strategy: 'density'
+      })
+
+      expect(result.height).toBe(64)
+    })
+
+    it('throws error without width', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { strategy: 'density' })
+      ).toThrow('width is required for the density strategy.')
+    })
+
+    it.each([[[]], [[0]], [[1, -2]], [[NaN]]])(
+      'throws error for densities %j',
+      (densities) => {
+        expect(() =>
+          getResponsiveImageAttributes(project, src, {
+            width: 64,
+            strategy: 'density',
+            densities
+          })
+        ).toThrow('Densities must be positive numbers.')
+      }
+    )
+  })
+
+  describe('Explicit strategy', () => {
+    it('uses the default strategy even when width is provided', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        strategy: 'default'
+      })
+
+      expect(result.sizes).toBe('100vw')
+      expect(result.srcSet).not.toContain('1600w')
+    })
+
+    it('uses the width strategy with custom sizes', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        sizes: '50vw',
+        strategy: 'width'
+      })
+
+      expect(result.sizes).toBe('50vw')
+      expect(result.srcSet).toContain('16w')
+      expect(result.srcSet).toContain('1600w')
+      expect(result.width).toBe(800)
+    })
+
+    it('returns a single URL with the none strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        strategy: 'none'
+      })
+
+      expect(result).toEqual({
+        src: buildImageUrl(project, src, { width: 800 }),
+        srcSet: ''
+      })
+    })
+
+    it('throws error when the width strategy has no width', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { strategy: 'width' })
+      ).toThrow('width is required for the width strategy.')
+    })
+
+    it('throws error when the sizes strategy has no sizes', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { strategy: 'sizes' })
+      ).toThrow('sizes is required for the sizes strategy.')
+    })
+
+    it('throws error for unsupported strategies', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, {
+          strategy: 'masonry' as any
+        })
+      ).toThrow(
+        'Invalid strategy. Supported strategies are none, default, width, sizes and density.'
+      )
+    })
+  })
+
   describe('Custom breakpoints', () => {
     it('uses custom device breakpoints in default strategy', () => {
       const customBreakpoints = [400, 800, 1200]
@@ -276,6 +446,150 @@ describe('getResponsiveImageAttributes', () => {
     })
   })
 
+  describe('Generated breakpoints', () => {
+    it('replaces device and image breakpoints in the default strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        breakpoints: { min: 400, max: 1200, step: 400 }
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths).toEqual(['400w', '800w', '1200w'])
+    })
+
+    it('keeps the width and its 2x variant in the width strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 500,
+        breakpoints: { min: 400, max: 1200, step: 400 }
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths).toEqual(['400w', '500w', '800w', '1000w', '1200w'])
+    })
+
+    it('takes precedence over deviceBreakpoints', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        deviceBreakpoints: [640, 1920],
+        breakpoints: { min: 300, max: 900, steps: 2 }
+      })
+
+      expect(result.srcSet).toContain('300w')
+      expect(result.srcSet).not.toContain('640w')
+    })
+
+    it('throws error for an invalid range', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, {
+          breakpoints: { min: 900, max: 300 }
+        })
+      ).toThrow('Breakpoint min must not be larger than max.')
+    })
+  })
+
+  describe('Intrinsic dimensions', () => {
+    it('caps the default strategy at the intrinsic width', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        intrinsicWidth: 1500
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths).toEqual([
+        '480w',
+        '640w',
+        '750w',
+        '828w',
+        '1080w',
+        '1200w',
+        '1500w'
+      ])
+    })
+
+    it('caps the width strategy and its fallback', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 1600,
+        intrinsicWidth: 1200
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths?.at(-1)).toBe('1200w')
+      expect(result.srcSet).not.toContain('1600w')
+      expect(result.src).toContain('width=1200')
+      expect(result.width).toBe(1600)
+    })
+
+    it('caps the sizes strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '100vw',
+        intrinsicWidth: 1000
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths).toEqual(['480w', '640w', '750w', '828w', '1000w'])
+    })
+
+    it('adds the intrinsic width when the source is large enough', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '(min-width: 768px) 200px, 100px',
+        intrinsicWidth: 4000
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths?.slice(-2)).toEqual(['640w', '4000w'])
+    })
+
+    it('adds the intrinsic width above every breakpoint', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        intrinsicWidth: 5000
+      })
+
+      const widths = result.srcSet.match(/(\d+)w/g)
+      expect(widths?.slice(-2)).toEqual(['3840w', '5000w'])
+      expect(
+        getResponsiveImageAttributes(project, src, {
+          width: 800,
+          intrinsicWidth: 5000
+        }).srcSet
+      ).toMatch(/width=5000 5000w$/)
+    })
+
+    it('describes capped densities by the density they provide', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 400,
+        strategy: 'density',
+        densities: [1, 2, 3],
+        intrinsicWidth: 600
+      })
+
+      const descriptors = result.srcSet.match(/\S+x(?=,|$)/g)
+      expect(descriptors).toEqual(['1x', '1.5x'])
+      expect(result.srcSet).toContain('width=600 1.5x')
+    })
+
+    it('caps the width from the intrinsic height and aspect ratio', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        aspectRatio: '16:9',
+        intrinsicHeight: 600
+      })
+
+      expect(result.srcSet).toContain('width=1067&aspectRatio=16%3A9 1067w')
+      expect(result.srcSet).toMatch(/1067w$/)
+    })
+
+    it('ignores the intrinsic height without an aspect ratio', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        intrinsicHeight: 600
+      })
+
+      expect(result.srcSet).toContain('3840w')
+    })
+
+    it('throws error for an invalid intrinsic width', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { intrinsicWidth: -1 })
+      ).toThrow('Intrinsic width must be a positive number.')
+    })
+  })
+
   describe('Format handling', () => {
     it('defaults to webp format', () => {
       const result = getResponsiveImageAttributes(project, src, { width: 800 })
@@ -294,6 +608,21 @@ describe('getResponsiveImageAttributes', () => {
       expect(result.srcSet).toContain('format=png')
     })
 
+    it('uses avif format and quality for every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '100vw',
+        format: 'avif',
+        quality: 40
+      })
+
+      const entries = result.srcSet.split(', ')
+      entries.forEach((entry) => {
+        expect(entry).toContain('format=avif')
+        expect(entry).toContain('quality=40')
+      })
+      expect(result.src).toContain('quality=40')
+    })
+
     it('applies format to all srcSet entries', () => {
       const result = getResponsiveImageAttributes(project, src, {
         sizes: '100vw',
@@ -307,6 +636,174 @@ describe('getResponsiveImageAttributes', () => {
     })
   })
 
+  describe('Height and aspect ratio', () => {
+    it('scales height proportionally for every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        height: 450
+      })
+
+      expect(result.srcSet).toContain('width=480&height=270 480w')
+      expect(result.srcSet).toContain('width=800&height=450 800w')
+      expect(result.srcSet).toContain('width=1600&height=900 1600w')
+      expect(result.src).toContain('width=800&height=450')
+    })
+
+    it('returns height attribute for width-based strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        height: 450
+      })
+
+      expect(result.width).toBe(800)
+      expect(result.height).toBe(450)
+    })
+
+    it('derives height attribute from aspect ratio', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        aspectRatio: '16:9'
+      })
+
+      expect(result.height).toBe(450)
+    })
+
+    it('applies aspect ratio and fit to every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '100vw',
+        aspectRatio: '1:1',
+        fit: 'cover'
+      })
+
+      const entries = result.srcSet.split(', ')
+      entries.forEach((entry) => {
+        expect(entry).toContain('aspectRatio=1%3A1')
+        expect(entry).toContain('fit=cover')
+      })
+    })
+
+    it('applies gravity to every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        aspectRatio: '1:1',
+        gravity: 'face'
+      })
+
+      const entries = result.srcSet.split(', ')
+      entries.forEach((entry) => {
+        expect(entry).toContain('gravity=face')
+      })
+      expect(result.src).toContain('gravity=face')
+    })
+
+    it('applies the focal point to every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '100vw',
+        aspectRatio: '16:9',
+        focusX: 0.3,
+        focusY: 0.25
+      })
+
+      const entries = result.srcSet.split(', ')
+      entries.forEach((entry) => {
+        expect(entry).toContain('focusX=0.3&focusY=0.25')
+      })
+    })
+
+    it('applies effects to every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        grayscale: true,
+        blur: 5
+      })
+
+      const entries = result.srcSet.split(', ')
+      entries.forEach((entry) => {
+        expect(entry).toContain('blur=5&grayscale=true')
+      })
+      expect(result.src).toContain('blur=5&grayscale=true')
+    })
+
+    it('keeps a fixed height when width is not provided', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        height: 300,
+        responsive: false
+      })
+
+      expect(result.src).toContain('height=300')
+    })
+
+    it('leaves a height without width off the candidates', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        height: 300
+      })
+
+      expect(result.srcSet).toContain('width=480 480w')
+      expect(result.srcSet).not.toContain('height=')
+      expect(result.src).not.toContain('height=')
+    })
+
+    it('keeps every candidate at the aspect ratio without a width', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        aspectRatio: '16:9',
+        height: 300
+      })
+
+      result.srcSet.split(', ').forEach((entry) => {
+        expect(entry).toContain('aspectRatio=16%3A9')
+        expect(entry).not.toContain('height=')
+      })
+    })
+
+    it('does not include height attribute in default strategy', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        aspectRatio: '16:9'
+      })
+
+      expect(result.height).toBeUndefined()
+    })
+  })
+
+  describe('Placeholder', () => {
+    it('adds placeholder styles when requested', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        placeholder: 'blur'
+      })
+
+      expect(result.style).toEqual(getPlaceholder(project, src)?.style)
+    })
+
+    it('adds placeholder styles in non-responsive mode', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        responsive: false,
+        placeholder: 'tiny'
+      })
+
+      expect(result.style).toEqual(
+        getPlaceholder(project, src, { strategy: 'tiny' })?.style
+      )
+    })
+
+    it('crops the placeholder like the image', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        height: 400,
+        gravity: 'north',
+        placeholder: 'blur'
+      })
+
+      expect(result.style?.backgroundImage).toContain('aspectRatio=2')
+      expect(result.style?.backgroundImage).toContain('gravity=north')
+    })
+
+    it('omits styles without a placeholder', () => {
+      const result = getResponsiveImageAttributes(project, src, { width: 800 })
+
+      expect(result.style).toBeUndefined()
+    })
+  })
+
   describe('Edge cases', () => {
     it('handles URLs with special characters', () => {
       const specialSrc = 'https://example.com/image with spaces.jpg?v=1&foo=bar'
@@ -333,48 +830,199 @@ describe('getResponsiveImageAttributes', () => {
     })
 
     it('handles sizes with multiple vw values correctly', () => {
-      // Should use 33vw (smallest) for filtering
+      // 50vw at 768px is the smallest rendered width (384px), since 33vw only
+      // applies from 1200px (396px)
       const result = getResponsiveImageAttributes(project, src, {
         sizes: '(min-width: 1200px) 33vw, (min-width: 768px) 50vw, 100vw'
       })
 
-      // 33vw on 480px = ~158px minimum
-      // Should include 256w and above from image breakpoints
-      expect(result.srcSet).toContain('256w')
+      expect(result.srcSet).toContain('384w')
+      expect(result.srcSet).not.toContain(' 256w')
       expect(result.srcSet).toContain('480w')
       expect(result.srcSet).toContain('640w')
     })
   })
 
-  describe('Relative URL support', () => {
+  describe('Endpoint', () => {
     beforeEach(() => {
       resetConfig()
     })
 
-    it('resolves relative src with baseUrl option', () => {
-      const result = getResponsiveImageAttributes(project, '/images/hero.webp', {
-        baseUrl: 'https://example.com',
+    it('uses the endpoint for every candidate', () => {
+      const endpoint = 'https://images.example.com/api/image'
+      const result = getResponsiveImageAttributes(project, src, {
+        endpoint,
+        width: 800,
+        placeholder: 'blur'
+      })
+
+      expect(result.src.startsWith(`${endpoint}?`)).toBe(true)
+      result.srcSet.split(', ').forEach((entry) => {
+        expect(entry.startsWith(`${endpoint}?`)).toBe(true)
+      })
+      expect(result.style?.backgroundImage).toContain(endpoint)
+    })
+
+    it('uses the globally configured endpoint', () => {
+      configure({ endpoint: 'https://images.example.com/api/image' })
+
+      const result = getResponsiveImageAttributes(project, src, { width: 800 })
+
+      expect(result.srcSet).not.toContain('pixelpuppy.io')
+    })
+  })
+
+  describe('URL style', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('uses the url style for every candidate', () => {
+      const prefix = 'https://pixelpuppy.io/api/image/p/'
+      const result = getResponsiveImageAttributes(project, src, {
+        placeholder: 'blur',
+        urlStyle: 'path',
         width: 800
       })
 
+      expect(result.src.startsWith(prefix)).toBe(true)
+      result.srcSet.split(', ').forEach((entry) => {
+        expect(entry.startsWith(prefix)).toBe(true)
+      })
+      expect(result.style?.backgroundImage).toContain(prefix)
+    })
+
+    it('uses the globally configured url style', () => {
+      configure({ urlStyle: 'path' })
+
+      const result = getResponsiveImageAttributes(project, src, { width: 800 })
+
+      expect(result.srcSet).not.toContain('?project=')
+    })
+  })
+
+  describe('Source normalization', () => {
+    it('normalizes the source of every candidate', () => {
+      const result = getResponsiveImageAttributes(
+        project,
+        'https://Example.com/./image.jpg?utm_source=x',
+        { normalizeSource: true, placeholder: 'blur', width: 800 }
+      )
+
+      expect(result).toEqual(
+        getResponsiveImageAttributes(project, src, {
+          placeholder: 'blur',
+          width: 800
+        })
+      )
+    })
+  })
+
+  describe('Invalid option policies', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('throws by default', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, { width: 800, quality: 0 })
+      ).toThrow('Quality must be between 1 and 100.')
+    })
+
+    it('falls back to the original image without a srcset', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        quality: 0,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result).toEqual({ src, srcSet: '' })
+    })
+
+    it('falls back for invalid responsive options', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        sizes: '50vh',
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result).toEqual({ src, srcSet: '' })
+    })
+
+    it('drops invalid transformation options from every candidate', () => {
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        quality: 0,
+        blur: -5,
+        onInvalid: 'drop-option'
+      })
+
+      expect(result).toEqual(
+        getResponsiveImageAttributes(project, src, { width: 800 })
+      )
+    })
+
+    it('still throws for invalid responsive options when dropping', () => {
+      expect(() =>
+        getResponsiveImageAttributes(project, src, {
+          strategy: 'density',
+          onInvalid: 'drop-option'
+        })
+      ).toThrow('width is required for the density strategy.')
+    })
+
+    it('uses the globally configured policy', () => {
+      configure({ onInvalid: 'drop-option' })
+
+      const result = getResponsiveImageAttributes(project, src, {
+        width: 800,
+        fit: 'stretch' as any
+      })
+
+      expect(result.srcSet).not.toContain('fit=')
+    })
+  })
+
+  describe('Relative URL support', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('resolves relative src with baseUrl option', () => {
+      const result = getResponsiveImageAttributes(
+        project,
+        '/images/hero.webp',
+        {
+          baseUrl: 'https://example.com',
+          width: 800
+        }
+      )
+
       expect(result.src).toContain('example.com%2Fimages%2Fhero.webp')
       expect(result.srcSet).toContain('example.com%2Fimages%2Fhero.webp')
     })
 
     it('resolves relative src with global config', () => {
       configure({ baseUrl: 'https://example.com' })
-      const result = getResponsiveImageAttributes(project, '/images/hero.webp', {
-        width: 800
-      })
+      const result = getResponsiveImageAttributes(
+        project,
+        '/images/hero.webp',
+        {
+          width: 800
+        }
+      )
 
       expect(result.src).toContain('example.com%2Fimages%2Fhero.webp')
     })
 
     it('passes baseUrl through to all srcSet entries', () => {
-      const result = getResponsiveImageAttributes(project, '/images/hero.webp', {
-        baseUrl: 'https://example.com',
-        sizes: '100vw'
-      })
+      const result = getResponsiveImageAttributes(
+        project,
+        '/images/hero.webp',
+        {
+          baseUrl: 'https://example.com',
+          sizes: '100vw'
+        }
+      )
 
       // All srcSet entries should use the resolved URL
       const srcSetEntries = result.srcSet.split(', ')
@@ -384,11 +1032,15 @@ describe('getResponsiveImageAttributes', () => {
     })
 
     it('works with non-responsive mode', () => {
-      const result = getResponsiveImageAttributes(project, '/images/hero.webp', {
-        baseUrl: 'https://example.com',
-        width: 800,
-        responsive: false
-      })
+      const result = getResponsiveImageAttributes(
+        project,
+        '/images/hero.webp',
+        {
+          baseUrl: 'https://example.com',
+          width: 800,
+          responsive: false
+        }
+      )
 
       expect(result.src).toContain('example.com%2Fimages%2Fhero.webp')
       expect(result.srcSet).toBe('')
@@ -396,7 +1048,9 @@ describe('getResponsiveImageAttributes', () => {
 
     it('throws error for relative URL without baseUrl', () => {
       expect(() =>
-        getResponsiveImageAttributes(project, '/images/hero.webp', { width: 800 })
+        getResponsiveImageAttributes(project, '/images/hero.webp', {
+          width: 800
+        })
       ).toThrow('Cannot resolve relative URL')
     })
 
@@ -414,4 +1068,17 @@ describe('getResponsiveImageAttributes', () => {
       expect(result.src).not.toContain('example.com%2Fimage')
     })
   })
+
+  describe('Defaults', () => {
+    it('cannot be changed by a consumer', () => {
+      for (const defaults of [
+        defaultDensities,
+        defaultDeviceBreakpoints,
+        defaultImageBreakpoints
+      ]) {
+        expect(Object.isFrozen(defaults)).toBe(true)
+        expect(() => (defaults as number[]).push(1)).toThrow(TypeError)
+      }
+    })
+  })
 })
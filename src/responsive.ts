@@ -1,21 +1,88 @@
-import { buildImageUrl } from './urls'
+import { generateBreakpoints, type BreakpointRange } from './breakpoints'
+import { getDefaultClient } from './client'
+import {
+  capWidths,
+  capWidthsToSource,
+  getAspectRatioValue,
+  getSourceSizeIssues,
+  getSourceWidthLimit,
+  type FitMode,
+  type Gravity,
+  type SourceSize
+} from './dimensions'
+import { pickEffects, type ImageEffects } from './effects'
+import { InvalidOptionError, MissingOptionError } from './errors'
+import type { ImageFormat } from './formats'
+import {
+  createPlaceholder,
+  type PlaceholderStrategy,
+  type PlaceholderStyle
+} from './placeholder'
+import type { UrlStyle } from './path-urls'
+import { getSizesRange } from './sizes'
+import { resolveUrl, type SourceNormalizationOptions } from './url-utils'
+import { createImageUrl } from './urls'
+import {
+  getInvalidOptionPolicy,
+  getTransformationIssues,
+  isOptionError,
+  toInvalidOptionError,
+  withoutInvalidOptions,
+  type InvalidOptionPolicy
+} from './validation'
 
 /**
- * Default device breakpoints covering mobile phones to 4K displays
+ * Default device breakpoints covering mobile phones to 4K displays. Frozen,
+ * since every call without deviceBreakpoints shares it.
  */
-const defaultDeviceBreakpoints = [
+export const defaultDeviceBreakpoints: readonly number[] = Object.freeze([
   480, 640, 750, 828, 1080, 1200, 1920, 2048, 3840
-]
+])
 
 /**
- * Default image breakpoints for small images and icons
+ * Default image breakpoints for small images and icons. Frozen, since every
+ * call without imageBreakpoints shares it.
  */
-const defaultImageBreakpoints = [16, 32, 48, 64, 96, 128, 256, 384]
+export const defaultImageBreakpoints: readonly number[] = Object.freeze([
+  16, 32, 48, 64, 96, 128, 256, 384
+])
+
+/**
+ * Supported responsive image strategies:
+ * - 'none': a single URL without srcset or sizes
+ * - 'default': every device breakpoint with sizes="100vw"
+ * - 'width': every breakpoint plus the width and its 2x variant
+ * - 'sizes': the breakpoints that cover the rendered widths of sizes
+ * - 'density': x-descriptors (1x, 2x, ...) for fixed-size images
+ */
+export const responsiveStrategies = [
+  'none',
+  'default',
+  'width',
+  'sizes',
+  'density'
+] as const
+
+/**
+ * How the srcset candidates are chosen
+ */
+export type ResponsiveStrategy = (typeof responsiveStrategies)[number]
+
+/**
+ * Default pixel densities for the density strategy. Frozen, since every call
+ * without densities shares it.
+ */
+export const defaultDensities: readonly number[] = Object.freeze([1, 2])
 
 /**
  * Options for generating responsive image attributes
  */
-export interface ResponsiveImageOptions {
+export interface ResponsiveImageOptions extends ImageEffects, SourceSize {
+  /**
+   * The desired aspect ratio, either as a number (width / height) or as a
+   * "width:height" string such as '16:9'. Applied to every srcset candidate.
+   */
+  aspectRatio?: number | string
   /**
    * Base URL to prepend to relative image URLs.
    * Overrides any globally configured baseUrl for this call only.
@@ -26,20 +93,108 @@ export interface ResponsiveImageOptions {
    * })
    */
   baseUrl?: string
+  /**
+   * Generates the breakpoints from a width range instead of using
+   * deviceBreakpoints and imageBreakpoints. Takes precedence over both.
+   *
+   * @example
+   * getResponsiveImageAttributes('project', '/images/card.jpg', {
+   *   breakpoints: { min: 300, max: 1200, steps: 6 },
+   *   sizes: '(min-width: 768px) 33vw, 100vw'
+   * })
+   */
+  breakpoints?: BreakpointRange
   /**
    * Custom device width breakpoints
    * @default [480, 640, 750, 828, 1080, 1200, 1920, 2048, 3840]
    */
-  deviceBreakpoints?: number[]
+  deviceBreakpoints?: readonly number[]
+  /**
+   * Pixel densities to generate candidates for with the density strategy
+   * @default [1, 2]
+   */
+  densities?: readonly number[]
+  /**
+   * The image transformation endpoint for every candidate.
+   * Overrides any globally configured endpoint for this call only.
+   */
+  endpoint?: string
   /**
    * The desired image format
    */
-  format?: 'webp' | 'png'
+  format?: ImageFormat
+  /**
+   * How the image should fit the requested dimensions
+   */
+  fit?: FitMode
+  /**
+   * Horizontal focal point from 0 to 1, applied to every candidate so all
+   * breakpoints crop around the same subject. Must be combined with focusY.
+   */
+  focusX?: number
+  /**
+   * Vertical focal point from 0 to 1, applied to every candidate so all
+   * breakpoints crop around the same subject. Must be combined with focusX.
+   */
+  focusY?: number
+  /**
+   * Which part of the image to keep when cropping, applied to every candidate
+   */
+  gravity?: Gravity
+  /**
+   * The intended display height of the image in pixels.
+   * When width is also provided, the height is scaled proportionally for
+   * every srcset candidate so the aspect ratio holds across breakpoints.
+   * Without width, the candidates leave it out; use aspectRatio to crop them.
+   */
+  height?: number
   /**
    * Custom image width breakpoints (concatenated with deviceBreakpoints)
    * @default [16, 32, 48, 64, 96, 128, 256, 384]
    */
-  imageBreakpoints?: number[]
+  imageBreakpoints?: readonly number[]
+  /**
+   * The height of the source image in pixels. Combined with the aspect
+   * ratio, it caps the srcset candidates like intrinsicWidth.
+   */
+  intrinsicHeight?: number
+  /**
+   * The width of the source image in pixels. Candidates wider than the
+   * source are replaced by a single candidate at the source width, so the
+   * image is never scaled up. Width-described srcsets always end with the
+   * source width, even when it is wider than every breakpoint.
+   *
+   * @example
+   * getResponsiveImageAttributes('project', '/images/photo.jpg', {
+   *   width: 800,
+   *   intrinsicWidth: 1200
+   * })
+   * // srcset ends with 1200w instead of 1600w, 1920w, 2048w and 3840w
+   */
+  intrinsicWidth?: number
+  /**
+   * Normalizes the source URL of every candidate.
+   * Overrides any globally configured normalizeSource for this call only.
+   */
+  normalizeSource?: boolean | SourceNormalizationOptions
+  /**
+   * How invalid options are handled. With 'fallback-to-original', any
+   * invalid option results in the original image URL as src and no srcset.
+   * With 'drop-option', invalid transformation options are left out, while
+   * invalid responsive options such as sizes still throw.
+   * @default 'throw'
+   */
+  onInvalid?: InvalidOptionPolicy
+  /**
+   * Adds a low-quality placeholder as inline background styles, shown while
+   * the real image loads
+   */
+  placeholder?: PlaceholderStrategy
+  /**
+   * The desired compression quality, a whole number from 1 to 100, applied
+   * to every candidate
+   */
+  quality?: number
   /**
    * Whether to generate responsive image attributes (srcset, sizes)
    * When false, returns only a single src URL
@@ -51,6 +206,17 @@ export interface ResponsiveImageOptions {
    * When provided, uses sizes-based strategy with filtered breakpoints
    */
   sizes?: string
+  /**
+   * How the srcset candidates are chosen. When omitted, the strategy is
+   * inferred: 'none' when responsive is false, 'sizes' when sizes is
+   * provided, 'width' when width is provided and 'default' otherwise.
+   */
+  strategy?: ResponsiveStrategy
+  /**
+   * How the URL of every candidate is laid out.
+   * Overrides any globally configured urlStyle for this call only.
+   */
+  urlStyle?: UrlStyle
   /**
    * The intended display width of the image in pixels
    */
@@ -62,7 +228,13 @@ export interface ResponsiveImageOptions {
  */
 export interface ResponsiveImageAttributes {
   /**
-   * The sizes attribute value (only present for width-based strategy)
+   * The height attribute value (only present for the width-based and density
+   * strategies when height or aspectRatio is known)
+   */
+  height?: number
+  /**
+   * The sizes attribute value (not present for the non-responsive and
+   * density strategies)
    */
   sizes?: string
   /**
@@ -74,29 +246,50 @@ export interface ResponsiveImageAttributes {
    */
   srcSet: string
   /**
-   * The width attribute value (only present for DPR-based strategy)
+   * Inline placeholder styles (only present when the placeholder option is set)
+   */
+  style?: PlaceholderStyle
+  /**
+   * The width attribute value (only present for the width-based and density
+   * strategies)
    */
   width?: number
 }
 
 /**
- * Parses the smallest vw value from a sizes attribute string
- * Returns the percentage as a decimal (e.g., "50vw" returns 0.5)
+ * The highest pixel density srcset candidates are generated for
  */
-function parseSmallestVw(sizes: string): number | null {
-  const vwMatches = sizes.match(/(\d+)vw/g)
+const maxDensity = 3
 
-  if (!vwMatches || vwMatches.length === 0) {
-    return null
+/**
+ * Checks that densities holds at least one positive number
+ */
+export function validateDensities(densities: readonly number[]): void {
+  if (
+    densities.length === 0 ||
+    densities.some((density) => !(density > 0 && Number.isFinite(density)))
+  ) {
+    throw new InvalidOptionError(
+      'INVALID_DENSITIES',
+      'Densities must be positive numbers.',
+      { option: 'densities', value: densities }
+    )
   }
+}
 
-  const vwValues = vwMatches.map((match) => {
-    const num = match.match(/(\d+)/)
-    return num?.[1] ? parseInt(num[1], 10) : 100
-  })
+/**
+ * Picks a strategy from the options that are present
+ */
+function inferStrategy(options: ResponsiveImageOptions): ResponsiveStrategy {
+  if (options.responsive === false) {
+    return 'none'
+  }
 
-  const smallestVw = Math.min(...vwValues)
-  return smallestVw / 100
+  if (options.sizes) {
+    return 'sizes'
+  }
+
+  return options.width ? 'width' : 'default'
 }
 
 /**
@@ -107,6 +300,15 @@ function parseSmallestVw(sizes: string): number | null {
  * @param options - Responsive image options
  * @returns Object with src, srcSet, and optionally sizes and width attributes
  *
+ * @throws {InvalidOptionError} INVALID_SIZES when sizes is not a valid sizes attribute value
+ * @throws {InvalidOptionError} INVALID_STRATEGY when strategy is not a supported strategy
+ * @throws {MissingOptionError} MISSING_WIDTH or MISSING_SIZES when the chosen strategy needs width or sizes and it is missing
+ * @throws {InvalidOptionError} INVALID_DENSITIES when densities is empty or contains a non-positive number
+ * @throws {InvalidOptionError} INVALID_BREAKPOINTS when breakpoints is not a valid breakpoint range
+ * @throws {InvalidOptionError} INVALID_INTRINSIC_SIZE when intrinsicWidth or intrinsicHeight is not a positive number
+ * @throws {InvalidOptionError} INVALID_POLICY when an option is invalid and onInvalid is not a supported policy
+ * @throws {PixelPuppyError} Any error of buildImageUrl for the transformation options
+ *
  * @example
  * // Non-responsive (single URL)
  * const attrs = getResponsiveImageAttributes('my-project', 'https://example.com/image.jpg', {
@@ -131,116 +333,367 @@ function parseSmallestVw(sizes: string): number | null {
  * // Returns: { src: '...', srcSet: '... 640w, ... 750w, ...', sizes: '(min-width: 768px) 50vw, 100vw' }
  *
  * @example
+ * // Density strategy (fixed-size images such as logos and avatars)
+ * const attrs = getResponsiveImageAttributes('my-project', 'https://example.com/avatar.jpg', {
+ *   width: 64,
+ *   strategy: 'density',
+ *   densities: [1, 2, 3]
+ * })
+ * // Returns: { src: '...', srcSet: '... 1x, ... 2x, ... 3x', width: 64 }
+ *
+ * @example
  * // Default strategy (no width or sizes)
  * const attrs = getResponsiveImageAttributes('my-project', 'https://example.com/image.jpg')
  * // Returns: { src: '...', srcSet: '... 480w, 640w, 750w, ...', sizes: '100vw' }
+ *
+ * @example
+ * // Leave out invalid CMS values instead of failing the render
+ * const attrs = getResponsiveImageAttributes('my-project', 'https://example.com/image.jpg', {
+ *   width: 800,
+ *   quality: 150,
+ *   onInvalid: 'drop-option'
+ * })
+ * // Every candidate is built without quality
  */
 export function getResponsiveImageAttributes(
   project: string,
   src: string,
   options: ResponsiveImageOptions = {}
+): ResponsiveImageAttributes {
+  return getDefaultClient(project).responsive(src, options)
+}
+
+/**
+ * Generates the attributes behind getResponsiveImageAttributes and a
+ * client's responsive(), applying the onInvalid policy to the whole srcset
+ */
+export function createResponsiveImageAttributes(
+  project: string,
+  src: string,
+  options: ResponsiveImageOptions = {}
+): ResponsiveImageAttributes {
+  try {
+    return buildResponsiveImageAttributes(project, src, options)
+  } catch (error) {
+    if (!isOptionError(error)) {
+      throw error
+    }
+
+    const onInvalid = getInvalidOptionPolicy(options.onInvalid)
+
+    if (onInvalid === 'fallback-to-original') {
+      return { src: resolveUrl(src, options.baseUrl), srcSet: '' }
+    }
+
+    if (
+      onInvalid === 'drop-option' &&
+      getTransformationIssues(options).length > 0
+    ) {
+      return buildResponsiveImageAttributes(
+        project,
+        src,
+        withoutInvalidOptions(options)
+      )
+    }
+
+    throw error
+  }
+}
+
+function buildResponsiveImageAttributes(
+  project: string,
+  src: string,
+  options: ResponsiveImageOptions
 ): ResponsiveImageAttributes {
   const {
+    aspectRatio,
     baseUrl,
+    breakpoints,
+    endpoint,
+    fit,
+    focusX,
+    focusY,
+    gravity,
+    height,
+    intrinsicHeight,
+    intrinsicWidth,
+    normalizeSource,
+    placeholder,
+    quality,
+    urlStyle,
     width,
     sizes,
     format,
     responsive = true,
     deviceBreakpoints = defaultDeviceBreakpoints,
-    imageBreakpoints = defaultImageBreakpoints
+    densities = defaultDensities,
+    imageBreakpoints = defaultImageBreakpoints,
+    strategy = inferStrategy(options)
   } = options
 
+  if (!responsiveStrategies.includes(strategy)) {
+    throw new InvalidOptionError(
+      'INVALID_STRATEGY',
+      'Invalid strategy. Supported strategies are none, default, width, sizes and density.',
+      { option: 'strategy', value: strategy }
+    )
+  }
+
+  const [sourceSizeIssue] = getSourceSizeIssues(options)
+
+  if (sourceSizeIssue) {
+    throw toInvalidOptionError(sourceSizeIssue)
+  }
+
+  const effects = pickEffects(options)
+
+  // Generated breakpoints replace both hand-picked lists
+  const generatedBreakpoints = breakpoints
+    ? generateBreakpoints(breakpoints)
+    : undefined
+  const deviceWidths = generatedBreakpoints ?? deviceBreakpoints
+  const imageWidths = generatedBreakpoints ? [] : imageBreakpoints
+
+  // The widest candidate the source can provide without scaling up. The
+  // intrinsic height only limits the width when the output is cropped to a
+  // known aspect ratio.
+  const outputRatio =
+    width && height
+      ? width / height
+      : aspectRatio !== undefined
+        ? getAspectRatioValue(aspectRatio)
+        : undefined
+  const maxWidth = getSourceWidthLimit(
+    { intrinsicHeight, intrinsicWidth },
+    outputRatio
+  )
+
+  // Builds the URL for a single candidate, scaling the height along with the
+  // width so every candidate keeps the same aspect ratio. Without a width to
+  // scale from, a fixed height would give every candidate a different crop,
+  // so it is left to the aspect ratio instead.
+  const buildCandidateUrl = (requestedWidth: number | undefined) => {
+    const candidateWidth =
+      requestedWidth && maxWidth
+        ? Math.min(requestedWidth, maxWidth)
+        : requestedWidth
+    const candidateHeight = !candidateWidth
+      ? height
+      : height && width
+        ? Math.round((candidateWidth * height) / width)
+        : undefined
+
+    return createImageUrl(project, src, {
+      ...effects,
+      aspectRatio,
+      baseUrl,
+      endpoint,
+      fit,
+      focusX,
+      focusY,
+      format,
+      gravity,
+      height: candidateHeight,
+      normalizeSource,
+      // The policy is applied once for the whole srcset, not per candidate
+      onInvalid: 'throw',
+      quality,
+      urlStyle,
+      width: candidateWidth
+    })
+  }
+
+  // The placeholder follows the same crop as the real image
+  const placeholderStyle = placeholder
+    ? createPlaceholder(project, src, {
+        ...effects,
+        aspectRatio:
+          aspectRatio ?? (width && height ? width / height : undefined),
+        baseUrl,
+        endpoint,
+        fit,
+        focusX,
+        focusY,
+        format,
+        gravity,
+        normalizeSource,
+        onInvalid: 'throw',
+        strategy: placeholder,
+        urlStyle
+      })?.style
+    : undefined
+  const placeholderAttributes = placeholderStyle
+    ? { style: placeholderStyle }
+    : {}
+
+  // Height attribute for strategies that render at a known width
+  const getAttributeHeight = (attributeWidth: number) =>
+    height ??
+    (aspectRatio !== undefined
+      ? Math.round(attributeWidth / getAspectRatioValue(aspectRatio))
+      : undefined)
+
   // Strategy 0: Non-responsive mode (responsive: false)
   // Returns only a single URL
-  if (responsive === false) {
-    const singleUrl = buildImageUrl(project, src, { baseUrl, width, format })
+  if (strategy === 'none') {
+    const singleUrl = buildCandidateUrl(width)
     return {
       src: singleUrl,
-      srcSet: ''
+      srcSet: '',
+      ...placeholderAttributes
     }
   }
 
   // Combine all breakpoints for width-based strategies
   const allBreakpoints = [
-    ...deviceBreakpoints,
-    ...imageBreakpoints,
+    ...deviceWidths,
+    ...imageWidths,
     ...(width ? [width, width * 2] : []) // Include width and 2x variant
   ]
   const uniqueBreakpoints = Array.from(new Set(allBreakpoints)).sort(
     (a, b) => a - b
   )
 
+  // Strategy 4: Density-based (fixed-size images)
+  // Uses x-descriptors with one candidate per pixel density
+  if (strategy === 'density') {
+    if (!width) {
+      throw new MissingOptionError(
+        'MISSING_WIDTH',
+        'width is required for the density strategy.',
+        { option: 'width' }
+      )
+    }
+
+    validateDensities(densities)
+
+    const sortedDensities = Array.from(new Set(densities)).sort((a, b) => a - b)
+
+    // Densities the source is too small for collapse into one candidate at
+    // the source width, described by the density it actually provides
+    const candidateWidths = capWidths(
+      sortedDensities.map((density) => Math.round(width * density)),
+      maxWidth
+    )
+    const srcSetEntries = candidateWidths.map((candidateWidth) => {
+      const url = buildCandidateUrl(candidateWidth)
+      const density = Math.round((candidateWidth / width) * 100) / 100
+      return `${url} ${density}x`
+    })
+
+    // The lowest density doubles as the fallback src
+    const fallbackSrc = buildCandidateUrl(candidateWidths[0])
+    const attributeHeight = getAttributeHeight(width)
+
+    return {
+      src: fallbackSrc,
+      srcSet: srcSetEntries.join(', '),
+      width,
+      ...(attributeHeight ? { height: attributeHeight } : {}),
+      ...placeholderAttributes
+    }
+  }
+
   // Strategy 3: Sizes-based (sizes provided)
-  // Uses w-descriptors, filters based on smallest vw value
-  if (sizes) {
-    const smallestVw = parseSmallestVw(sizes)
-    let filteredBreakpoints = uniqueBreakpoints
-
-    // If sizes contains vw units, filter out breakpoints smaller than minimum needed
-    if (smallestVw !== null) {
-      const minDeviceWidth = 480 // Smallest device we support
-      const minImageWidth = minDeviceWidth * smallestVw
-      filteredBreakpoints = uniqueBreakpoints.filter(
-        (bp) => bp >= minImageWidth
+  // Uses w-descriptors, keeping the breakpoints that cover the rendered width
+  // range from 1x up to the highest supported density
+  if (strategy === 'sizes') {
+    if (!sizes) {
+      throw new MissingOptionError(
+        'MISSING_SIZES',
+        'sizes is required for the sizes strategy.',
+        { option: 'sizes' }
       )
     }
 
-    const srcSetEntries = filteredBreakpoints.map((w) => {
-      const url = buildImageUrl(project, src, { baseUrl, width: w, format })
+    const range = getSizesRange(sizes)
+    const largestNeeded = range.max * maxDensity
+    const filteredBreakpoints = uniqueBreakpoints.filter(
+      (bp) => bp >= range.min && bp <= largestNeeded
+    )
+    const nextLargest = uniqueBreakpoints.find((bp) => bp > largestNeeded)
+
+    // Without a breakpoint at exactly the largest width needed, the next one
+    // up covers the top of the range
+    if (
+      nextLargest &&
+      filteredBreakpoints[filteredBreakpoints.length - 1] !== largestNeeded
+    ) {
+      filteredBreakpoints.push(nextLargest)
+    }
+
+    // Every breakpoint is smaller than the image is ever rendered, so the
+    // largest one is the best available
+    if (filteredBreakpoints.length === 0) {
+      filteredBreakpoints.push(...uniqueBreakpoints.slice(-1))
+    }
+
+    const candidateWidths = capWidthsToSource(filteredBreakpoints, maxWidth)
+    const srcSetEntries = candidateWidths.map((w) => {
+      const url = buildCandidateUrl(w)
       return `${url} ${w}w`
     })
 
     // Use the smallest breakpoint as fallback src
-    const fallbackWidth = filteredBreakpoints[0] || uniqueBreakpoints[0]
-    const fallbackSrc = buildImageUrl(project, src, {
-      baseUrl,
-      width: fallbackWidth,
-      format
-    })
+    const fallbackWidth = candidateWidths[0] || uniqueBreakpoints[0]
+    const fallbackSrc = buildCandidateUrl(fallbackWidth)
 
     return {
       src: fallbackSrc,
       srcSet: srcSetEntries.join(', '),
-      sizes
+      sizes,
+      ...placeholderAttributes
     }
   }
 
   // Strategy 2: Width-based (width provided, no sizes)
   // Uses all device breakpoints + width + 2x variant
-  if (width) {
-    const srcSetEntries = uniqueBreakpoints.map((w) => {
-      const url = buildImageUrl(project, src, { baseUrl, width: w, format })
+  if (strategy === 'width') {
+    if (!width) {
+      throw new MissingOptionError(
+        'MISSING_WIDTH',
+        'width is required for the width strategy.',
+        { option: 'width' }
+      )
+    }
+
+    const candidateWidths = capWidthsToSource(uniqueBreakpoints, maxWidth)
+    const srcSetEntries = candidateWidths.map((w) => {
+      const url = buildCandidateUrl(w)
       return `${url} ${w}w`
     })
 
     // Use the provided width as fallback src
-    const fallbackSrc = buildImageUrl(project, src, { baseUrl, width, format })
+    const fallbackSrc = buildCandidateUrl(width)
+    const attributeHeight = getAttributeHeight(width)
 
     return {
       src: fallbackSrc,
       srcSet: srcSetEntries.join(', '),
-      sizes: '(min-width: 1024px) 1024px, 100vw',
-      width
+      sizes: sizes ?? '(min-width: 1024px) 1024px, 100vw',
+      width,
+      ...(attributeHeight ? { height: attributeHeight } : {}),
+      ...placeholderAttributes
     }
   }
 
   // Strategy 1: Default (no width or sizes)
   // Uses all device breakpoints with sizes="100vw"
-  const sortedBreakpoints = [...deviceBreakpoints].sort((a, b) => a - b)
+  const sortedBreakpoints = capWidthsToSource(
+    [...deviceWidths].sort((a, b) => a - b),
+    maxWidth
+  )
   const srcSetEntries = sortedBreakpoints.map((w) => {
-    const url = buildImageUrl(project, src, { baseUrl, width: w, format })
+    const url = buildCandidateUrl(w)
     return `${url} ${w}w`
   })
 
-  const fallbackSrc = buildImageUrl(project, src, {
-    baseUrl,
-    width: sortedBreakpoints[0],
-    format
-  })
+  const fallbackSrc = buildCandidateUrl(sortedBreakpoints[0])
 
   return {
     src: fallbackSrc,
     srcSet: srcSetEntries.join(', '),
-    sizes: '100vw'
+    sizes: '100vw',
+    ...placeholderAttributes
   }
 }
@@ -0,0 +1,341 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+
+import { configure, resetConfig } from './config'
+import { getResponsiveImageAttributes } from './responsive'
+import {
+  buildSignedImageUrl,
+  getSignedResponsiveImageAttributes,
+  signImageUrl,
+  verifyImageUrl
+} from './signing'
+import { buildImageUrl } from './urls'
+
+describe('signing', () => {
+  const projectSlug = 'test-project'
+  const imageUrl = 'https://example.com/image.jpg'
+  const secret = 'super-secret'
+
+  beforeEach(() => {
+    resetConfig()
+  })
+
+  describe('signImageUrl', () => {
+    it('appends a hex signature', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+      const result = await signImageUrl(url, { signingSecret: secret })
+
+      expect(result.startsWith(`${url}&signature=`)).toBe(true)
+      expect(new URL(result).searchParams.get('signature')).toMatch(
+        /^[0-9a-f]{64}$/
+      )
+    })
+
+    it('produces deterministic signatures', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+
+      const first = await signImageUrl(url, { signingSecret: secret })
+      const second = await signImageUrl(url, { signingSecret: secret })
+
+      expect(first).toBe(second)
+    })
+
+    it('produces different signatures for different secrets', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+
+      const first = await signImageUrl(url, { signingSecret: secret })
+      const second = await signImageUrl(url, { signingSecret: 'other' })
+
+      expect(first).not.toBe(second)
+    })
+
+    it('appends the expiry in seconds', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+      const result = await signImageUrl(url, {
+        signingSecret: secret,
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      })
+
+      expect(result).toContain('expires=1893456000')
+    })
+
+    it('replaces an existing signature', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+      const signed = await signImageUrl(url, { signingSecret: secret })
+      const resigned = await signImageUrl(signed, { signingSecret: secret })
+
+      expect(resigned).toBe(signed)
+    })
+
+    it('uses the globally configured secret', async () => {
+      configure({ signingSecret: secret })
+      const url = buildImageUrl(projectSlug, imageUrl)
+
+      expect(await signImageUrl(url)).toBe(
+        await signImageUrl(url, { signingSecret: secret })
+      )
+    })
+
+    it('throws error when no secret is available', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+
+      await expect(signImageUrl(url)).rejects.toThrow(
+        'signingSecret is required'
+      )
+    })
+  })
+
+  describe('buildSignedImageUrl', () => {
+    it('signs the URL built by buildImageUrl', async () => {
+      const result = await buildSignedImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        signingSecret: secret
+      })
+
+      expect(result).toBe(
+        await signImageUrl(
+          buildImageUrl(projectSlug, imageUrl, { width: 800 }),
+          {
+            signingSecret: secret
+          }
+        )
+      )
+    })
+
+    it('does not leak signing options into the query string', async () => {
+      const result = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret
+      })
+
+      expect(result).not.toContain(secret)
+      expect(result).not.toContain('signingSecret')
+    })
+
+    it('leaves the original image unsigned when falling back', async () => {
+      const result = await buildSignedImageUrl(projectSlug, imageUrl, {
+        width: -1,
+        onInvalid: 'fallback-to-original',
+        signingSecret: secret
+      })
+
+      expect(result).toBe(imageUrl)
+    })
+
+    it('leaves data URLs unsigned when falling back', async () => {
+      const dataUrl = 'data:image/png;base64,AAAA'
+
+      const result = await buildSignedImageUrl(projectSlug, dataUrl, {
+        width: -1,
+        onInvalid: 'fallback-to-original',
+        signingSecret: secret
+      })
+
+      expect(result).toBe(dataUrl)
+    })
+  })
+
+  describe('getSignedResponsiveImageAttributes', () => {
+    it('signs the src and every srcset candidate', async () => {
+      const result = await getSignedResponsiveImageAttributes(
+        projectSlug,
+        imageUrl,
+        { width: 800, signingSecret: secret }
+      )
+      const unsigned = getResponsiveImageAttributes(projectSlug, imageUrl, {
+        width: 800
+      })
+      const candidates = result.srcSet.split(', ')
+
+      expect(await verifyImageUrl(result.src, secret)).toBe(true)
+      expect(candidates).toHaveLength(unsigned.srcSet.split(', ').length)
+
+      for (const candidate of candidates) {
+        const [url = '', descriptor] = candidate.split(' ')
+
+        expect(descriptor).toMatch(/^\d+w$/)
+        expect(await verifyImageUrl(url, secret)).toBe(true)
+      }
+
+      expect(result.sizes).toBe(unsigned.sizes)
+    })
+
+    it('signs path-style candidates and density descriptors', async () => {
+      configure({ signingSecret: secret })
+
+      const result = await getSignedResponsiveImageAttributes(
+        projectSlug,
+        imageUrl,
+        { strategy: 'density', urlStyle: 'path', width: 64 }
+      )
+
+      expect(result.srcSet).toMatch(/\/w_64,f_webp\/.*\?signature=\w+ 1x/)
+      expect(result.srcSet).toMatch(/\/w_128,f_webp\/.*\?signature=\w+ 2x/)
+    })
+
+    it('leaves the original image unsigned when falling back', async () => {
+      const result = await getSignedResponsiveImageAttributes(
+        projectSlug,
+        imageUrl,
+        { width: -1, onInvalid: 'fallback-to-original', signingSecret: secret }
+      )
+
+      expect(result).toEqual({ src: imageUrl, srcSet: '' })
+    })
+
+    it('throws error without a signing secret', async () => {
+      await expect(
+        getSignedResponsiveImageAttributes(projectSlug, imageUrl)
+      ).rejects.toThrow('signingSecret is required.')
+    })
+  })
+
+  describe('verifyImageUrl', () => {
+    it('accepts valid signatures', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret
+      })
+
+      expect(await verifyImageUrl(url, secret)).toBe(true)
+    })
+
+    it('accepts signatures regardless of parameter order', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        signingSecret: secret
+      })
+      const parsed = new URL(url)
+      const reordered = new URLSearchParams(
+        [...parsed.searchParams.entries()].reverse()
+      )
+
+      expect(
+        await verifyImageUrl(
+          `${parsed.origin}${parsed.pathname}?${reordered}`,
+          secret
+        )
+      ).toBe(true)
+    })
+
+    it('rejects the wrong secret', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret
+      })
+
+      expect(await verifyImageUrl(url, 'wrong-secret')).toBe(false)
+    })
+
+    it('rejects tampered parameters', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        signingSecret: secret
+      })
+
+      expect(
+        await verifyImageUrl(url.replace('width=800', 'width=4000'), secret)
+      ).toBe(false)
+    })
+
+    it('signs the path of path-style URLs', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        signingSecret: secret,
+        urlStyle: 'path'
+      })
+
+      expect(url).toMatch(/\/p\/test-project\/w_800,f_webp\/.*\?signature=/)
+      expect(await verifyImageUrl(url, secret)).toBe(true)
+      expect(await verifyImageUrl(url.replace('w_800', 'w_4000'), secret)).toBe(
+        false
+      )
+    })
+
+    it('rejects query strings moved onto a path-style URL', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret
+      })
+      const { search } = new URL(url)
+
+      expect(
+        await verifyImageUrl(
+          `https://pixelpuppy.io/api/image/p/victim/w_4000,f_png/https/evil.com/huge.png${search}`,
+          secret
+        )
+      ).toBe(false)
+    })
+
+    it('accepts query-style URLs from an endpoint containing /p/', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        endpoint: 'https://cdn.example.com/p/image',
+        signingSecret: secret
+      })
+
+      expect(url).toMatch(/^https:\/\/cdn\.example\.com\/p\/image\?project=/)
+      expect(await verifyImageUrl(url, secret)).toBe(true)
+    })
+
+    it('rejects query strings moved onto another path', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret
+      })
+      const { search } = new URL(url)
+
+      expect(
+        await verifyImageUrl(`https://pixelpuppy.io/api/other${search}`, secret)
+      ).toBe(false)
+    })
+
+    it('rejects unsigned URLs', async () => {
+      const url = buildImageUrl(projectSlug, imageUrl)
+
+      expect(await verifyImageUrl(url, secret)).toBe(false)
+    })
+
+    it('rejects malformed signatures', async () => {
+      const url = `${buildImageUrl(projectSlug, imageUrl)}&signature=xyz`
+
+      expect(await verifyImageUrl(url, secret)).toBe(false)
+    })
+
+    it('rejects invalid URLs', async () => {
+      expect(await verifyImageUrl('not a url', secret)).toBe(false)
+    })
+
+    it('accepts URLs before they expire', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret,
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      })
+
+      expect(
+        await verifyImageUrl(url, secret, {
+          now: new Date('2029-12-31T23:59:59Z')
+        })
+      ).toBe(true)
+    })
+
+    it('rejects expired URLs', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret,
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      })
+
+      expect(
+        await verifyImageUrl(url, secret, {
+          now: new Date('2030-01-01T00:00:00Z')
+        })
+      ).toBe(false)
+    })
+
+    it('rejects tampered expiry', async () => {
+      const url = await buildSignedImageUrl(projectSlug, imageUrl, {
+        signingSecret: secret,
+        expiresAt: new Date('2030-01-01T00:00:00Z')
+      })
+
+      expect(
+        await verifyImageUrl(url.replace('1893456000', '1993456000'), secret, {
+          now: new Date('2029-01-01T00:00:00Z')
+        })
+      ).toBe(false)
+    })
+  })
+})
@@ -0,0 +1,418 @@
+import { getDefaultClient } from './client'
+import { getConfig } from './config'
+import {
+  InvalidOptionError,
+  MissingOptionError,
+  PixelPuppyError
+} from './errors'
+import { parseImageUrl } from './parse'
+import { fromPathUrl } from './path-urls'
+import {
+  createResponsiveImageAttributes,
+  type ResponsiveImageAttributes,
+  type ResponsiveImageOptions
+} from './responsive'
+import { createImageUrl, type TransformationOptions } from './urls'
+
+/**
+ * Options for signing a Pixel Puppy URL
+ */
+export interface SigningOptions {
+  /**
+   * When the signed URL stops being valid.
+   * Numbers are interpreted as milliseconds since the epoch, like Date.now().
+   */
+  expiresAt?: Date | number
+  /**
+   * The secret used to sign the URL.
+   * Overrides any globally configured signingSecret for this call only.
+   */
+  signingSecret?: string
+}
+
+/**
+ * Options for building a signed image URL
+ */
+export interface SignedTransformationOptions
+  extends TransformationOptions,
+    SigningOptions {}
+
+/**
+ * Options for building signed responsive image attributes. Placeholders are
+ * not supported, since their URL is inlined into styles.
+ */
+export interface SignedResponsiveImageOptions
+  extends Omit<ResponsiveImageOptions, 'placeholder'>,
+    SigningOptions {}
+
+/**
+ * Options for verifying a signed URL
+ */
+export interface VerifyOptions {
+  /**
+   * The point in time to check the expiry against.
+   * @default new Date()
+   */
+  now?: Date | number
+}
+
+const encoder = new TextEncoder()
+
+/**
+ * Builds the canonical string that gets signed: the path followed by every
+ * parameter except the signature itself, sorted by name. The path is always
+ * signed, since path-style URLs carry the project, source and
+ * transformations in it.
+ */
+function getCanonicalString(url: URL): string {
+  const entries = [...url.searchParams.entries()]
+    .filter(([key]) => key !== 'signature')
+    .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+
+  return `${url.pathname}?${new URLSearchParams(entries).toString()}`
+}
+
+/**
+ * Whether a URL mixes both layouts, i.e. has a path-style path and also a
+ * project or url parameter. Such URLs are ambiguous, so they never verify.
+ *
+ * The endpoint is not known here, so every `/p/` segment is tried. A custom
+ * endpoint whose path merely contains `/p/` is not followed by a valid
+ * path-style path, so its query-style URLs still verify.
+ */
+function hasMixedLayout(url: URL): boolean {
+  if (!url.searchParams.has('project') && !url.searchParams.has('url')) {
+    return false
+  }
+
+  const parts = url.pathname.split('/p/')
+
+  return parts
+    .slice(1)
+    .some(
+      (_, index) =>
+        typeof fromPathUrl(parts.slice(index + 1).join('/p/')) !== 'string'
+    )
+}
+
+function getSubtleCrypto(): SubtleCrypto {
+  const subtle = globalThis.crypto?.subtle
+
+  if (!subtle) {
+    throw new PixelPuppyError(
+      'CRYPTO_UNAVAILABLE',
+      'Web Crypto is not available in this environment.'
+    )
+  }
+
+  return subtle
+}
+
+function importKey(
+  secret: string,
+  usage: 'sign' | 'verify'
+): Promise<CryptoKey> {
+  return getSubtleCrypto().importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    [usage]
+  )
+}
+
+function toHex(buffer: ArrayBuffer): string {
+  return Array.from(new Uint8Array(buffer))
+    .map((byte) => byte.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+function fromHex(hex: string): Uint8Array | null {
+  if (hex.length % 2 !== 0 || !/^[0-9a-f]*$/i.test(hex)) {
+    return null
+  }
+
+  const bytes = new Uint8Array(hex.length / 2)
+
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.slice(i * 2, i * 2 + 2), 16)
+  }
+
+  return bytes
+}
+
+function toTimestamp(value: Date | number): number {
+  return value instanceof Date ? value.getTime() : value
+}
+
+/**
+ * Signs an existing Pixel Puppy URL with an HMAC-SHA256 signature.
+ *
+ * The signature covers the path and every query parameter (sorted by name),
+ * including the optional expiry, so identical URLs always produce identical
+ * signatures.
+ * Any existing signature or expiry is replaced.
+ *
+ * Uses Web Crypto, so it works in Node.js, Bun, edge runtimes and browsers.
+ *
+ * @param url - The Pixel Puppy URL to sign
+ * @param options - The signing secret and optional expiry
+ * @returns The URL with `signature` (and `expires`) parameters appended
+ *
+ * @throws {MissingOptionError} MISSING_SIGNING_SECRET when no signing secret is provided or configured
+ * @throws {InvalidOptionError} INVALID_EXPIRES_AT when expiresAt is not a valid date
+ * @throws {PixelPuppyError} CRYPTO_UNAVAILABLE when Web Crypto is not available
+ *
+ * @example
+ * const signed = await signImageUrl(url, { signingSecret: 'secret' })
+ */
+export async function signImageUrl(
+  url: string,
+  options: SigningOptions = {}
+): Promise<string> {
+  const secret = options.signingSecret ?? getConfig().signingSecret
+
+  if (!secret) {
+    throw new MissingOptionError(
+      'MISSING_SIGNING_SECRET',
+      'signingSecret is required.',
+      { option: 'signingSecret' }
+    )
+  }
+
+  const parsedUrl = new URL(url)
+  const params = parsedUrl.searchParams
+
+  params.delete('expires')
+  params.delete('signature')
+
+  if (options.expiresAt !== undefined) {
+    const expiresAt = toTimestamp(options.expiresAt)
+
+    if (Number.isNaN(expiresAt)) {
+      throw new InvalidOptionError(
+        'INVALID_EXPIRES_AT',
+        'expiresAt must be a valid date.',
+        { option: 'expiresAt', value: options.expiresAt }
+      )
+    }
+
+    params.append('expires', Math.floor(expiresAt / 1000).toString())
+  }
+
+  const key = await importKey(secret, 'sign')
+  const signature = await getSubtleCrypto().sign(
+    'HMAC',
+    key,
+    encoder.encode(getCanonicalString(parsedUrl))
+  )
+
+  params.append('signature', toHex(signature))
+
+  return parsedUrl.toString()
+}
+
+/**
+ * Signs a URL built by this library. Original image URLs returned by the
+ * 'fallback-to-original' policy are not Pixel Puppy URLs, so they are
+ * returned unsigned.
+ */
+function signBuiltUrl(
+  url: string,
+  endpoint: string | undefined,
+  options: SigningOptions
+): Promise<string> {
+  return parseImageUrl(url, { endpoint }).success
+    ? signImageUrl(url, options)
+    : Promise.resolve(url)
+}
+
+/**
+ * Builds a signed URL for the Pixel Puppy image transformation API.
+ *
+ * Accepts the same options as buildImageUrl plus the signing options.
+ * The secret is taken from the options or from the global configuration.
+ * Original image URLs returned by the 'fallback-to-original' policy are
+ * returned unsigned.
+ *
+ * @param projectSlug - The project identifier for your Pixel Puppy account
+ * @param originalImageUrl - The URL of the original image to transform
+ * @param options - Transformation and signing settings
+ * @returns The signed Pixel Puppy transformation URL
+ *
+ * @throws {MissingOptionError} MISSING_SIGNING_SECRET when no signing secret is provided or configured
+ * @throws {PixelPuppyError} Any error of buildImageUrl or signImageUrl
+ *
+ * @example
+ * configure({ signingSecret: process.env.PIXEL_PUPPY_SECRET })
+ *
+ * const url = await buildSignedImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: 800,
+ *   expiresAt: Date.now() + 60 * 60 * 1000
+ * })
+ */
+export function buildSignedImageUrl(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: SignedTransformationOptions = {}
+): Promise<string> {
+  return getDefaultClient(projectSlug).signedUrl(originalImageUrl, options)
+}
+
+/**
+ * Builds the signed URL behind buildSignedImageUrl and a client's
+ * signedUrl()
+ */
+export function createSignedImageUrl(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: SignedTransformationOptions = {}
+): Promise<string> {
+  const { expiresAt, signingSecret, ...transformationOptions } = options
+
+  return signBuiltUrl(
+    createImageUrl(projectSlug, originalImageUrl, transformationOptions),
+    options.endpoint,
+    { expiresAt, signingSecret }
+  )
+}
+
+/**
+ * Generates responsive image attributes like getResponsiveImageAttributes,
+ * with the src and every srcset candidate signed.
+ *
+ * getResponsiveImageAttributes and the other synchronous helpers never sign
+ * URLs, even when a signingSecret is configured, so use this function when
+ * the project only accepts signed URLs. Original image URLs returned by the
+ * 'fallback-to-original' policy are left unsigned.
+ *
+ * @param projectSlug - The project identifier for your Pixel Puppy account
+ * @param originalImageUrl - The URL of the original image to transform
+ * @param options - Responsive image and signing settings
+ * @returns The responsive image attributes with signed URLs
+ *
+ * @throws {MissingOptionError} MISSING_SIGNING_SECRET when no signing secret is provided or configured
+ * @throws {PixelPuppyError} Any error of getResponsiveImageAttributes or signImageUrl
+ *
+ * @example
+ * const attributes = await getSignedResponsiveImageAttributes('my-project', '/images/hero.jpg', {
+ *   sizes: '(min-width: 768px) 50vw, 100vw',
+ *   expiresAt: Date.now() + 24 * 60 * 60 * 1000
+ * })
+ */
+export function getSignedResponsiveImageAttributes(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: SignedResponsiveImageOptions = {}
+): Promise<ResponsiveImageAttributes> {
+  return getDefaultClient(projectSlug).signedResponsive(
+    originalImageUrl,
+    options
+  )
+}
+
+/**
+ * Generates the signed attributes behind getSignedResponsiveImageAttributes
+ * and a client's signedResponsive()
+ */
+export async function createSignedResponsiveImageAttributes(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: SignedResponsiveImageOptions = {}
+): Promise<ResponsiveImageAttributes> {
+  const { expiresAt, signingSecret, ...responsiveOptions } = options
+  const attributes = createResponsiveImageAttributes(
+    projectSlug,
+    originalImageUrl,
+    responsiveOptions
+  )
+
+  const sign = (url: string) =>
+    signBuiltUrl(url, options.endpoint, { expiresAt, signingSecret })
+
+  // Candidates are "<url> <descriptor>", and URLs never contain spaces
+  const candidates = attributes.srcSet ? attributes.srcSet.split(', ') : []
+  const [src = attributes.src, ...signedCandidates] = await Promise.all([
+    sign(attributes.src),
+    ...candidates.map(async (candidate) => {
+      const separator = candidate.lastIndexOf(' ')
+      const url = await sign(candidate.slice(0, separator))
+
+      return `${url}${candidate.slice(separator)}`
+    })
+  ])
+
+  return { ...attributes, src, srcSet: signedCandidates.join(', ') }
+}
+
+/**
+ * Verifies the signature of a signed Pixel Puppy URL.
+ *
+ * Returns false when the URL has no signature, the signature does not match,
+ * the URL has expired, or it has a path-style path together with project or
+ * url parameters.
+ *
+ * @param url - The signed URL to verify
+ * @param secret - The secret the URL was signed with
+ * @param options - Optional verification settings
+ * @returns Whether the URL carries a valid, unexpired signature
+ *
+ * @throws {MissingOptionError} MISSING_SIGNING_SECRET when secret is not provided
+ *
+ * @example
+ * if (!(await verifyImageUrl(request.url, process.env.PIXEL_PUPPY_SECRET))) {
+ *   return new Response('Forbidden', { status: 403 })
+ * }
+ */
+export async function verifyImageUrl(
+  url: string,
+  secret: string,
+  options: VerifyOptions = {}
+): Promise<boolean> {
+  if (!secret) {
+    throw new MissingOptionError(
+      'MISSING_SIGNING_SECRET',
+      'secret is required.',
+      { option: 'secret' }
+    )
+  }
+
+  let parsedUrl: URL
+
+  try {
+    parsedUrl = new URL(url)
+  } catch {
+    return false
+  }
+
+  if (hasMixedLayout(parsedUrl)) {
+    return false
+  }
+
+  const params = parsedUrl.searchParams
+
+  const signature = fromHex(params.get('signature') ?? '')
+
+  if (!signature || signature.length === 0) {
+    return false
+  }
+
+  const expires = params.get('expires')
+
+  if (expires !== null) {
+    const now = toTimestamp(options.now ?? new Date())
+
+    if (!(Number(expires) * 1000 > now)) {
+      return false
+    }
+  }
+
+  const key = await importKey(secret, 'verify')
+
+  return getSubtleCrypto().verify(
+    'HMAC',
+    key,
+    signature,
+    encoder.encode(getCanonicalString(parsedUrl))
+  )
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest'
+
+import { getSizesRange } from './sizes'
+
+describe('getSizesRange', () => {
+  describe('lengths', () => {
+    it.each([
+      ['100vw', { min: 480, max: 3840 }],
+      ['33.3vw', { min: 159, max: 1279 }],
+      ['300px', { min: 300, max: 300 }],
+      ['20em', { min: 320, max: 320 }],
+      ['10rem', { min: 160, max: 160 }],
+      ['1in', { min: 96, max: 96 }],
+      ['0', { min: 0, max: 0 }],
+      ['auto', { min: 480, max: 3840 }]
+    ])('evaluates %s', (sizes, expected) => {
+      expect(getSizesRange(sizes)).toEqual(expected)
+    })
+
+    it('evaluates calc()', () => {
+      expect(getSizesRange('calc(100vw - 2 * 1rem)')).toEqual({
+        min: 448,
+        max: 3808
+      })
+    })
+
+    it('evaluates min() and max()', () => {
+      expect(getSizesRange('min(100vw, 1200px)')).toEqual({
+        min: 480,
+        max: 1200
+      })
+      expect(getSizesRange('max(50vw, 600px)')).toEqual({
+        min: 600,
+        max: 1920
+      })
+    })
+
+    it('evaluates clamp()', () => {
+      expect(getSizesRange('clamp(300px, 50vw, 800px)')).toEqual({
+        min: 300,
+        max: 800
+      })
+    })
+
+    it('evaluates nested math functions', () => {
+      expect(
+        getSizesRange('calc(min(100vw, 1200px) - (2rem + 16px) / 2)')
+      ).toEqual({ min: 456, max: 1176 })
+    })
+
+    it('clamps negative results to zero', () => {
+      expect(getSizesRange('calc(100px - 10vw)').min).toBe(0)
+    })
+  })
+
+  describe('media conditions', () => {
+    it('uses the first matching entry', () => {
+      expect(
+        getSizesRange(
+          '(min-width: 1024px) 1024px, (min-width: 768px) 50vw, 100vw'
+        )
+      ).toEqual({ min: 384, max: 1024 })
+    })
+
+    it('supports max-width', () => {
+      expect(getSizesRange('(max-width: 767px) 100vw, 600px')).toEqual({
+        min: 480,
+        max: 767
+      })
+    })
+
+    it('supports em in media conditions', () => {
+      expect(getSizesRange('(min-width: 48em) 400px, 100vw')).toEqual({
+        min: 400,
+        max: 767
+      })
+    })
+
+    it('supports range syntax', () => {
+      expect(
+        getSizesRange(
+          '(768px <= width < 1024px) 300px, (width >= 1024px) 500px, 100vw'
+        )
+      ).toEqual({ min: 300, max: 767 })
+    })
+
+    it('supports and, or and not', () => {
+      expect(
+        getSizesRange(
+          '(min-width: 768px) and (max-width: 1023px) 300px, not (min-width: 768px) 200px, 500px'
+        )
+      ).toEqual({ min: 200, max: 500 })
+      expect(
+        getSizesRange('(max-width: 599px) or (min-width: 2000px) 100px, 50vw')
+      ).toEqual({ min: 100, max: 1000 })
+    })
+
+    it('counts entries guarded by features other than width', () => {
+      expect(getSizesRange('(orientation: portrait) 200px, 100vw')).toEqual({
+        min: 200,
+        max: 3840
+      })
+    })
+
+    it('uses the rest of the list after a leading auto', () => {
+      expect(getSizesRange('auto, (max-width: 600px) 100vw, 600px')).toEqual(
+        getSizesRange('(max-width: 600px) 100vw, 600px')
+      )
+    })
+
+    it('falls back to 100vw when no condition matches', () => {
+      expect(getSizesRange('(min-width: 1000px) 300px')).toEqual({
+        min: 300,
+        max: 999
+      })
+    })
+  })
+
+  describe('viewport widths', () => {
+    it('uses the given viewport range', () => {
+      expect(
+        getSizesRange('100vw', {
+          minViewportWidth: 320,
+          maxViewportWidth: 1920
+        })
+      ).toEqual({ min: 320, max: 1920 })
+    })
+  })
+
+  describe('validation', () => {
+    it.each([
+      ['', 'empty entry'],
+      ['100vw,', 'empty entry'],
+      ['50vh', 'unsupported unit "vh"'],
+      ['300', 'missing unit on "300"'],
+      ['100vw, 50vw', 'only the last entry can omit a media condition'],
+      ['50vw, auto', 'only the last entry can omit a media condition'],
+      ['(min-width: 768px)', 'expected a length after the media condition'],
+      ['calc(100vw * 2px)', 'cannot multiply two lengths'],
+      ['calc(100vw / 0)', 'cannot divide by zero'],
+      ['calc(100vw + 2)', 'cannot add a length and a number'],
+      ['calc(100vw, 2px)', 'calc() takes a single expression'],
+      ['clamp(1px, 2px)', 'clamp() takes three arguments'],
+      ['min(1px, 2)', 'min() cannot mix lengths and numbers'],
+      ['(min-width: 768px 50vw', 'expected ")" but found end of input'],
+      [
+        '(min-width: 1px) and (max-width: 2px) or (color) 50vw',
+        'mixing "and" and "or" requires parentheses'
+      ],
+      ['screen and (min-width: 768px) 50vw', 'expected "(" but found "screen"'],
+      ['100vw !', 'unexpected "!"']
+    ])('throws error for %j', (sizes, reason) => {
+      expect(() => getSizesRange(sizes)).toThrow(
+        `Invalid sizes "${sizes}": ${reason}.`
+      )
+    })
+  })
+})
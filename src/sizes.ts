@@ -0,0 +1,755 @@
+import { InvalidOptionError } from './errors'
+
+/**
+ * The rendered width range of an image, in CSS pixels
+ */
+export interface SizesRange {
+  /**
+   * The largest width the image is rendered at
+   */
+  max: number
+  /**
+   * The smallest width the image is rendered at
+   */
+  min: number
+}
+
+/**
+ * The viewport widths a sizes attribute is evaluated for
+ */
+export interface SizesRangeOptions {
+  /**
+   * The widest viewport, in CSS pixels
+   * @default 3840
+   */
+  maxViewportWidth?: number
+  /**
+   * The narrowest viewport, in CSS pixels
+   * @default 480
+   */
+  minViewportWidth?: number
+}
+
+type Token =
+  | { type: 'delim'; value: string }
+  | { type: 'ident'; value: string }
+  | { type: 'number'; unit: string; value: number }
+
+/**
+ * A length or plain number that may depend on the viewport width
+ */
+interface Value {
+  at: (viewportWidth: number) => number
+  isLength: boolean
+}
+
+/**
+ * Whether a media condition matches a viewport width. Undefined means it
+ * cannot be decided from the width alone, e.g. (orientation: portrait).
+ */
+type Condition = (viewportWidth: number) => boolean | undefined
+
+interface SizesEntry {
+  condition?: Condition
+  length: Value
+}
+
+const defaultMinViewportWidth = 480
+const defaultMaxViewportWidth = 3840
+
+/**
+ * CSS pixels per unit. em and rem use the initial font size, like media
+ * queries do.
+ */
+const absoluteUnits: Record<string, number> = {
+  cm: 96 / 2.54,
+  em: 16,
+  in: 96,
+  mm: 96 / 25.4,
+  pc: 16,
+  pt: 96 / 72,
+  px: 1,
+  rem: 16
+}
+
+const mathFunctions = ['calc', 'clamp', 'max', 'min']
+
+const tokenPattern =
+  /\s*(?:(<=|>=|[<>=():,*/+-])|((?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?)([a-z%]*)|([a-z][a-z0-9-]*))\s*/iy
+
+function tokenize(input: string): Token[] {
+  const tokens: Token[] = []
+  let index = input.search(/\S|$/)
+
+  while (index < input.length) {
+    tokenPattern.lastIndex = index
+    const match = tokenPattern.exec(input)
+
+    if (!match) {
+      throw new Error(`unexpected "${input.slice(index).trim()}"`)
+    }
+
+    const [text, delim, number, unit, ident] = match
+
+    if (delim) {
+      tokens.push({ type: 'delim', value: delim })
+    } else if (number) {
+      tokens.push({
+        type: 'number',
+        unit: unit?.toLowerCase() ?? '',
+        value: Number(number)
+      })
+    } else if (ident) {
+      tokens.push({ type: 'ident', value: ident.toLowerCase() })
+    }
+
+    index += text.length
+  }
+
+  return tokens
+}
+
+function describeToken(token: Token | undefined): string {
+  if (!token) {
+    return 'end of input'
+  }
+
+  return token.type === 'number'
+    ? `"${token.value}${token.unit}"`
+    : `"${token.value}"`
+}
+
+function isDelim(token: Token | undefined, value: string): boolean {
+  return token?.type === 'delim' && token.value === value
+}
+
+function isIdent(token: Token | undefined, value: string): boolean {
+  return token?.type === 'ident' && token.value === value
+}
+
+interface TokenStream {
+  expectDelim(value: string): void
+  expectEnd(): void
+  next(): Token | undefined
+  peek(): Token | undefined
+}
+
+/**
+ * Reads tokens in order, tracking the current position
+ */
+function createTokenStream(tokens: Token[]): TokenStream {
+  let index = 0
+
+  const stream: TokenStream = {
+    expectDelim(value) {
+      const token = stream.next()
+
+      if (!isDelim(token, value)) {
+        throw new Error(`expected "${value}" but found ${describeToken(token)}`)
+      }
+    },
+
+    expectEnd() {
+      if (stream.peek()) {
+        throw new Error(`unexpected ${describeToken(stream.peek())}`)
+      }
+    },
+
+    next() {
+      return tokens[index++]
+    },
+
+    peek() {
+      return tokens[index]
+    }
+  }
+
+  return stream
+}
+
+function constant(value: number, isLength: boolean): Value {
+  return { at: () => value, isLength }
+}
+
+function parseNumber(token: Extract<Token, { type: 'number' }>): Value {
+  const { unit, value } = token
+
+  if (unit === '') {
+    return constant(value, false)
+  }
+
+  if (unit === 'vw') {
+    return {
+      at: (viewportWidth) => (value * viewportWidth) / 100,
+      isLength: true
+    }
+  }
+
+  const pixelsPerUnit = absoluteUnits[unit]
+
+  if (pixelsPerUnit === undefined) {
+    throw new Error(`unsupported unit "${unit}"`)
+  }
+
+  return constant(value * pixelsPerUnit, true)
+}
+
+function parseMathFunction(name: string, stream: TokenStream): Value {
+  stream.expectDelim('(')
+
+  const args = [parseSum(stream)]
+
+  while (isDelim(stream.peek(), ',')) {
+    stream.next()
+    args.push(parseSum(stream))
+  }
+
+  stream.expectDelim(')')
+
+  const [first, second, third] = args
+
+  if (!first) {
+    throw new Error(`${name}() needs an argument`)
+  }
+
+  if (args.some((arg) => arg.isLength !== first.isLength)) {
+    throw new Error(`${name}() cannot mix lengths and numbers`)
+  }
+
+  if (name === 'calc') {
+    if (args.length !== 1) {
+      throw new Error('calc() takes a single expression')
+    }
+
+    return first
+  }
+
+  if (name === 'clamp') {
+    if (!second || !third || args.length !== 3) {
+      throw new Error('clamp() takes three arguments')
+    }
+
+    return {
+      at: (viewportWidth) =>
+        Math.max(
+          first.at(viewportWidth),
+          Math.min(second.at(viewportWidth), third.at(viewportWidth))
+        ),
+      isLength: first.isLength
+    }
+  }
+
+  const pick = name === 'min' ? Math.min : Math.max
+
+  return {
+    at: (viewportWidth) => pick(...args.map((arg) => arg.at(viewportWidth))),
+    isLength: first.isLength
+  }
+}
+
+function parseFactor(stream: TokenStream): Value {
+  const token = stream.next()
+
+  if (token?.type === 'number') {
+    return parseNumber(token)
+  }
+
+  if (isDelim(token, '-')) {
+    const value = parseFactor(stream)
+
+    return {
+      at: (viewportWidth) => -value.at(viewportWidth),
+      isLength: value.isLength
+    }
+  }
+
+  if (isDelim(token, '(')) {
+    const value = parseSum(stream)
+
+    stream.expectDelim(')')
+
+    return value
+  }
+
+  if (token?.type === 'ident' && mathFunctions.includes(token.value)) {
+    return parseMathFunction(token.value, stream)
+  }
+
+  throw new Error(`unexpected ${describeToken(token)}`)
+}
+
+function parseProduct(stream: TokenStream): Value {
+  let left = parseFactor(stream)
+
+  while (isDelim(stream.peek(), '*') || isDelim(stream.peek(), '/')) {
+    const operator = stream.next()
+    const a = left
+    const b = parseFactor(stream)
+
+    if (isDelim(operator, '*')) {
+      if (a.isLength && b.isLength) {
+        throw new Error('cannot multiply two lengths')
+      }
+
+      left = {
+        at: (viewportWidth) => a.at(viewportWidth) * b.at(viewportWidth),
+        isLength: a.isLength || b.isLength
+      }
+    } else {
+      if (b.isLength) {
+        throw new Error('cannot divide by a length')
+      }
+
+      // Plain numbers never depend on the viewport width
+      if (b.at(0) === 0) {
+        throw new Error('cannot divide by zero')
+      }
+
+      left = {
+        at: (viewportWidth) => a.at(viewportWidth) / b.at(viewportWidth),
+        isLength: a.isLength
+      }
+    }
+  }
+
+  return left
+}
+
+function parseSum(stream: TokenStream): Value {
+  let left = parseProduct(stream)
+
+  while (isDelim(stream.peek(), '+') || isDelim(stream.peek(), '-')) {
+    const sign = isDelim(stream.next(), '+') ? 1 : -1
+    const a = left
+    const b = parseProduct(stream)
+
+    if (a.isLength !== b.isLength) {
+      throw new Error('cannot add a length and a number')
+    }
+
+    left = {
+      at: (viewportWidth) => a.at(viewportWidth) + sign * b.at(viewportWidth),
+      isLength: a.isLength
+    }
+  }
+
+  return left
+}
+
+/**
+ * Parses the length at the end of a sizes entry: a single dimension, a math
+ * function, unitless zero or 'auto'
+ */
+function parseLength(tokens: Token[]): Value {
+  const [first] = tokens
+
+  if (tokens.length === 1 && isIdent(first, 'auto')) {
+    // Lazy-loaded images size themselves to their layout width, which can be
+    // anything up to the full viewport
+    return parseNumber({ type: 'number', unit: 'vw', value: 100 })
+  }
+
+  if (isDelim(first, '-') || isDelim(first, '(')) {
+    throw new Error(`unexpected ${describeToken(first)}`)
+  }
+
+  const stream = createTokenStream(tokens)
+  const value = parseFactor(stream)
+
+  stream.expectEnd()
+
+  if (!value.isLength && value.at(0) !== 0) {
+    throw new Error(`missing unit on "${value.at(0)}"`)
+  }
+
+  return {
+    // Math functions can still go negative, which browsers clamp to zero
+    at: (viewportWidth) => Math.max(0, value.at(viewportWidth)),
+    isLength: true
+  }
+}
+
+function and(conditions: Condition[]): Condition {
+  return (viewportWidth) => {
+    const results = conditions.map((condition) => condition(viewportWidth))
+
+    if (results.includes(false)) {
+      return false
+    }
+
+    return results.includes(undefined) ? undefined : true
+  }
+}
+
+function or(conditions: Condition[]): Condition {
+  return (viewportWidth) => {
+    const results = conditions.map((condition) => condition(viewportWidth))
+
+    if (results.includes(true)) {
+      return true
+    }
+
+    return results.includes(undefined) ? undefined : false
+  }
+}
+
+function compare(operator: string, a: number, b: number): boolean {
+  switch (operator) {
+    case '<':
+      return a < b
+    case '<=':
+      return a <= b
+    case '>':
+      return a > b
+    case '>=':
+      return a >= b
+    default:
+      return a === b
+  }
+}
+
+const comparisonOperators = ['<', '<=', '>', '>=', '=']
+
+// Turns "value <operator> width" into "width <operator> value"
+const flippedOperators: Record<string, string> = {
+  '<': '>',
+  '<=': '>=',
+  '=': '=',
+  '>': '<',
+  '>=': '<='
+}
+
+/**
+ * Parses the contents of a media feature such as min-width: 768px or
+ * 768px <= width < 1024px
+ */
+function parseMediaFeature(tokens: Token[]): Condition {
+  const [name, colon] = tokens
+
+  if (name?.type === 'ident' && isDelim(colon, ':')) {
+    if (!['max-width', 'min-width', 'width'].includes(name.value)) {
+      return () => undefined
+    }
+
+    const stream = createTokenStream(tokens.slice(2))
+    const value = parseSum(stream)
+
+    stream.expectEnd()
+
+    switch (name.value) {
+      case 'min-width':
+        return (viewportWidth) => viewportWidth >= value.at(viewportWidth)
+      case 'max-width':
+        return (viewportWidth) => viewportWidth <= value.at(viewportWidth)
+      default:
+        return (viewportWidth) => viewportWidth === value.at(viewportWidth)
+    }
+  }
+
+  if (tokens.length === 1 && name?.type === 'ident') {
+    // A boolean feature such as (color)
+    return () => undefined
+  }
+
+  // Range syntax: split the feature at its comparison operators
+  const parts: Token[][] = [[]]
+  const operators: string[] = []
+  let depth = 0
+
+  for (const token of tokens) {
+    if (
+      depth === 0 &&
+      token.type === 'delim' &&
+      comparisonOperators.includes(token.value)
+    ) {
+      operators.push(token.value)
+      parts.push([])
+      continue
+    }
+
+    if (isDelim(token, '(')) {
+      depth++
+    } else if (isDelim(token, ')')) {
+      depth--
+    }
+
+    parts[parts.length - 1]?.push(token)
+  }
+
+  if (operators.length === 0 || operators.length > 2) {
+    throw new Error('invalid media feature')
+  }
+
+  const nameIndex = parts.findIndex(
+    (part) => part.length === 1 && part[0]?.type === 'ident'
+  )
+  const featureName = parts[nameIndex]?.[0]
+
+  if (nameIndex === -1 || featureName?.type !== 'ident') {
+    throw new Error('invalid media feature')
+  }
+
+  const comparisons: Condition[] = []
+
+  parts.forEach((part, index) => {
+    if (index === nameIndex) {
+      return
+    }
+
+    const stream = createTokenStream(part)
+    const value = parseSum(stream)
+
+    stream.expectEnd()
+
+    // Normalise every comparison to "width <operator> value"
+    const operator =
+      index < nameIndex
+        ? (flippedOperators[operators[index] ?? '='] ?? '=')
+        : (operators[index - 1] ?? '=')
+
+    comparisons.push((viewportWidth) =>
+      compare(operator, viewportWidth, value.at(viewportWidth))
+    )
+  })
+
+  return featureName.value === 'width' ? and(comparisons) : () => undefined
+}
+
+function parseConditionInParens(stream: TokenStream): Condition {
+  stream.expectDelim('(')
+
+  const next = stream.peek()
+
+  if (isDelim(next, '(') || isIdent(next, 'not')) {
+    const condition = parseCondition(stream)
+
+    stream.expectDelim(')')
+
+    return condition
+  }
+
+  const featureTokens: Token[] = []
+  let depth = 0
+
+  while (depth > 0 || !isDelim(stream.peek(), ')')) {
+    const token = stream.next()
+
+    if (!token) {
+      throw new Error('expected ")" but found end of input')
+    }
+
+    if (isDelim(token, '(')) {
+      depth++
+    } else if (isDelim(token, ')')) {
+      depth--
+    }
+
+    featureTokens.push(token)
+  }
+
+  stream.expectDelim(')')
+
+  return parseMediaFeature(featureTokens)
+}
+
+function parseCondition(stream: TokenStream): Condition {
+  if (isIdent(stream.peek(), 'not')) {
+    stream.next()
+
+    const condition = parseConditionInParens(stream)
+
+    return (viewportWidth) => {
+      const result = condition(viewportWidth)
+
+      return result === undefined ? undefined : !result
+    }
+  }
+
+  const conditions = [parseConditionInParens(stream)]
+  const next = stream.peek()
+  const combinator = next?.type === 'ident' ? next.value : undefined
+
+  if (combinator !== 'and' && combinator !== 'or') {
+    return conditions[0] as Condition
+  }
+
+  while (isIdent(stream.peek(), combinator)) {
+    stream.next()
+    conditions.push(parseConditionInParens(stream))
+  }
+
+  if (isIdent(stream.peek(), 'and') || isIdent(stream.peek(), 'or')) {
+    throw new Error('mixing "and" and "or" requires parentheses')
+  }
+
+  return combinator === 'and' ? and(conditions) : or(conditions)
+}
+
+/**
+ * Splits a sizes entry into its media condition and trailing length
+ */
+function parseEntry(tokens: Token[]): SizesEntry {
+  const last = tokens[tokens.length - 1]
+  let lengthStart = tokens.length - 1
+
+  if (isDelim(last, ')')) {
+    // Walk back to the opening parenthesis of a trailing math function
+    let depth = 0
+
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      if (isDelim(tokens[i], ')')) {
+        depth++
+      } else if (isDelim(tokens[i], '(')) {
+        depth--
+      }
+
+      if (depth === 0) {
+        lengthStart = i - 1
+        break
+      }
+    }
+
+    const name = tokens[lengthStart]
+
+    if (name?.type !== 'ident' || !mathFunctions.includes(name.value)) {
+      throw new Error('expected a length after the media condition')
+    }
+  }
+
+  const length = parseLength(tokens.slice(lengthStart))
+  const conditionTokens = tokens.slice(0, lengthStart)
+
+  if (conditionTokens.length === 0) {
+    return { length }
+  }
+
+  const stream = createTokenStream(conditionTokens)
+  const condition = parseCondition(stream)
+
+  stream.expectEnd()
+
+  return { condition, length }
+}
+
+function parseSizes(sizes: string): SizesEntry[] {
+  const entries: Token[][] = [[]]
+  let depth = 0
+
+  for (const token of tokenize(sizes)) {
+    if (depth === 0 && isDelim(token, ',')) {
+      entries.push([])
+      continue
+    }
+
+    if (isDelim(token, '(')) {
+      depth++
+    } else if (isDelim(token, ')')) {
+      depth--
+    }
+
+    entries[entries.length - 1]?.push(token)
+  }
+
+  if (entries.some((tokens) => tokens.length === 0)) {
+    throw new Error('empty entry')
+  }
+
+  const [first = []] = entries
+
+  // A leading auto only applies to lazy-loaded images, which size themselves
+  // to their layout; the rest of the list is the fallback for everything else
+  if (entries.length > 1 && first.length === 1 && isIdent(first[0], 'auto')) {
+    entries.shift()
+  }
+
+  return entries.map((tokens, index) => {
+    const entry = parseEntry(tokens)
+
+    if (!entry.condition && index !== entries.length - 1) {
+      throw new Error('only the last entry can omit a media condition')
+    }
+
+    return entry
+  })
+}
+
+/**
+ * Calculates the smallest and largest width an image is rendered at for a
+ * sizes attribute value.
+ *
+ * Understands the full sizes grammar: media conditions (min-width, max-width,
+ * range syntax, and, or, not) followed by lengths in px, em, rem, vw and the
+ * other absolute units, including calc(), min(), max() and clamp(). Media
+ * features that do not depend on the width, such as orientation, may or may
+ * not match, so every entry they guard counts towards the range.
+ *
+ * @param sizes - The sizes attribute value
+ * @param options - The viewport widths to evaluate the sizes for
+ * @returns The rendered width range in CSS pixels
+ *
+ * @throws {InvalidOptionError} INVALID_SIZES when sizes is not a valid sizes attribute value
+ *
+ * @example
+ * getSizesRange('(min-width: 1024px) calc(50vw - 2rem), 100vw')
+ * // Returns: { min: 480, max: 1888 }
+ */
+export function getSizesRange(
+  sizes: string,
+  options: SizesRangeOptions = {}
+): SizesRange {
+  const {
+    maxViewportWidth = defaultMaxViewportWidth,
+    minViewportWidth = defaultMinViewportWidth
+  } = options
+
+  let entries: SizesEntry[]
+
+  try {
+    entries = parseSizes(sizes)
+  } catch (error) {
+    throw new InvalidOptionError(
+      'INVALID_SIZES',
+      `Invalid sizes "${sizes}": ${(error as Error).message}.`,
+      { cause: error, option: 'sizes', value: sizes }
+    )
+  }
+
+  let min = Infinity
+  let max = 0
+
+  // Every length is piecewise linear in the viewport width, so checking each
+  // whole pixel finds the extremes to within a pixel
+  for (
+    let viewportWidth = minViewportWidth;
+    viewportWidth <= maxViewportWidth;
+    viewportWidth++
+  ) {
+    let settled = false
+
+    for (const { condition, length } of entries) {
+      const matches = condition ? condition(viewportWidth) : true
+
+      if (matches === false) {
+        continue
+      }
+
+      const width = length.at(viewportWidth)
+
+      min = Math.min(min, width)
+      max = Math.max(max, width)
+
+      if (matches) {
+        settled = true
+        break
+      }
+    }
+
+    // When no condition matches, the browser falls back to 100vw
+    if (!settled) {
+      min = Math.min(min, viewportWidth)
+      max = Math.max(max, viewportWidth)
+    }
+  }
+
+  return { max: Math.ceil(max), min: Math.floor(min) }
+}
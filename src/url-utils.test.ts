@@ -1,7 +1,12 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 
 import { configure, resetConfig } from './config'
-import { isRelativeUrl, resolveUrl } from './url-utils'
+import {
+  defaultTrackingParams,
+  isRelativeUrl,
+  normalizeSourceUrl,
+  resolveUrl
+} from './url-utils'
 
 describe('isRelativeUrl', () => {
   it('returns true for paths starting with /', () => {
@@ -153,3 +158,68 @@ describe('resolveUrl', () => {
     })
   })
 })
+
+describe('normalizeSourceUrl', () => {
+  it('normalizes different spellings of the same URL to one', () => {
+    const spellings = [
+      'https://Example.com/a.jpg',
+      'https://example.com/./a.jpg?utm_source=x',
+      'https://example.com/a.jpg#top',
+      'https://EXAMPLE.com:443/images/../a.jpg?fbclid=abc&utm_medium=mail'
+    ]
+
+    for (const url of spellings) {
+      expect(normalizeSourceUrl(url)).toBe('https://example.com/a.jpg')
+    }
+  })
+
+  it('removes default ports only', () => {
+    expect(normalizeSourceUrl('http://example.com:80/a.jpg')).toBe(
+      'http://example.com/a.jpg'
+    )
+    expect(normalizeSourceUrl('https://example.com:8443/a.jpg')).toBe(
+      'https://example.com:8443/a.jpg'
+    )
+  })
+
+  it('sorts the remaining query parameters by name', () => {
+    expect(
+      normalizeSourceUrl('https://example.com/a.jpg?v=2&size=l&utm_term=x')
+    ).toBe('https://example.com/a.jpg?size=l&v=2')
+  })
+
+  it('keeps the order of repeated parameters', () => {
+    expect(normalizeSourceUrl('https://example.com/a.jpg?t=2&s=1&t=1')).toBe(
+      'https://example.com/a.jpg?s=1&t=2&t=1'
+    )
+  })
+
+  it('removes custom parameters by name or pattern', () => {
+    expect(
+      normalizeSourceUrl('https://example.com/a.jpg?ref=mail&x_id=1&utm_id=1', {
+        removeParams: ['ref', /^x_/]
+      })
+    ).toBe('https://example.com/a.jpg?utm_id=1')
+    expect(
+      normalizeSourceUrl('https://example.com/a.jpg?ref=mail&utm_id=1', {
+        removeParams: [...defaultTrackingParams, 'ref']
+      })
+    ).toBe('https://example.com/a.jpg')
+  })
+
+  it('can keep the query order and the fragment', () => {
+    expect(
+      normalizeSourceUrl('https://example.com/a.svg?v=2&b=1#icon', {
+        sortQuery: false,
+        stripFragment: false
+      })
+    ).toBe('https://example.com/a.svg?v=2&b=1#icon')
+  })
+
+  it('returns other URLs unchanged', () => {
+    expect(normalizeSourceUrl('data:image/png;base64,abc123#x')).toBe(
+      'data:image/png;base64,abc123#x'
+    )
+    expect(normalizeSourceUrl('not a url')).toBe('not a url')
+  })
+})
@@ -1,4 +1,5 @@
 import { getConfig } from './config'
+import { PixelPuppyError } from './errors'
 
 /**
  * Checks if a URL is relative (needs a base URL to resolve)
@@ -59,7 +60,7 @@ function getBrowserBaseUrl(): string | undefined {
  * @param url - The URL to resolve
  * @param baseUrl - Optional base URL to use (overrides global config)
  * @returns The resolved absolute URL
- * @throws {Error} if the URL is relative and no baseUrl is available
+ * @throws {PixelPuppyError} UNRESOLVABLE_RELATIVE_URL if the URL is relative and no baseUrl is available
  *
  * @example
  * // With explicit baseUrl
@@ -87,11 +88,13 @@ export function resolveUrl(url: string, baseUrl?: string): string {
   const effectiveBaseUrl = baseUrl ?? config.baseUrl ?? getBrowserBaseUrl()
 
   if (!effectiveBaseUrl) {
-    throw new Error(
+    throw new PixelPuppyError(
+      'UNRESOLVABLE_RELATIVE_URL',
       `Cannot resolve relative URL "${url}". ` +
         `Please configure a baseUrl using configure({ baseUrl: '...' }) ` +
         `or pass baseUrl in options. ` +
-        `In browser environments, this is auto-detected from window.location.origin.`
+        `In browser environments, this is auto-detected from window.location.origin.`,
+      { option: 'baseUrl', value: url }
     )
   }
 
@@ -101,3 +104,110 @@ export function resolveUrl(url: string, baseUrl?: string): string {
 
   return `${normalizedBase}${normalizedPath}`
 }
+
+/**
+ * Query parameters removed by default when normalizing source URLs: every
+ * utm_* parameter plus the click identifiers of common ad and mail platforms
+ */
+export const defaultTrackingParams: readonly (string | RegExp)[] =
+  Object.freeze([
+    /^utm_/,
+    '_ga',
+    '_gl',
+    'dclid',
+    'fbclid',
+    'gclid',
+    'igshid',
+    'mc_cid',
+    'mc_eid',
+    'msclkid',
+    'yclid'
+  ])
+
+/**
+ * Rules for normalizing source URLs. The host is always lowercased, default
+ * ports are always removed and dot segments are always resolved; the rules
+ * below can be adjusted.
+ */
+export interface SourceNormalizationOptions {
+  /**
+   * Query parameters to remove, by exact name or by pattern
+   * @default defaultTrackingParams
+   */
+  removeParams?: readonly (string | RegExp)[]
+  /**
+   * Sort the remaining query parameters by name
+   * @default true
+   */
+  sortQuery?: boolean
+  /**
+   * Remove the fragment, which is never sent to the image's server anyway
+   * @default true
+   */
+  stripFragment?: boolean
+}
+
+/**
+ * Normalizes an absolute http(s) source URL so that different spellings of
+ * the same asset produce the same transformation URL, and so share one cache
+ * entry. Other URLs, such as data URLs, are returned unchanged.
+ *
+ * @param url - The absolute URL to normalize
+ * @param options - Adjusts the normalization rules
+ * @returns The normalized URL
+ *
+ * @example
+ * normalizeSourceUrl('https://Example.com:443/photos/./a.jpg?utm_source=x#top')
+ * // Returns: 'https://example.com/photos/a.jpg'
+ *
+ * @example
+ * normalizeSourceUrl('https://example.com/a.jpg?v=2&size=l&ref=mail', {
+ *   removeParams: ['ref']
+ * })
+ * // Returns: 'https://example.com/a.jpg?size=l&v=2'
+ */
+export function normalizeSourceUrl(
+  url: string,
+  options: SourceNormalizationOptions = {}
+): string {
+  const {
+    removeParams = defaultTrackingParams,
+    sortQuery = true,
+    stripFragment = true
+  } = options
+
+  let parsed: URL
+
+  try {
+    parsed = new URL(url)
+  } catch {
+    return url
+  }
+
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return url
+  }
+
+  const params = parsed.searchParams
+  const removed = [...new Set(params.keys())].filter((name) =>
+    removeParams.some((param) =>
+      typeof param === 'string' ? param === name : param.test(name)
+    )
+  )
+
+  // Only touch the query when needed, since rewriting it re-encodes it
+  for (const name of removed) {
+    params.delete(name)
+  }
+
+  // URLSearchParams.size is missing in older runtimes, so count the keys
+  if (sortQuery && [...params.keys()].length > 1) {
+    params.sort()
+  }
+
+  if (stripFragment) {
+    parsed.hash = ''
+  }
+
+  return parsed.toString()
+}
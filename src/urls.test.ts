@@ -1,7 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 
 import { configure, resetConfig } from './config'
-import { buildImageUrl } from './urls'
+import { buildImageUrl, safeBuildImageUrl } from './urls'
 
 describe('buildImageUrl', () => {
   const projectSlug = 'test-project'
@@ -66,8 +66,10 @@ describe('buildImageUrl', () => {
 
     it('throws error when format is invalid', () => {
       expect(() =>
-        buildImageUrl(projectSlug, imageUrl, { format: 'jpeg' as any })
-      ).toThrow('Invalid format. Supported formats are webp and png.')
+        buildImageUrl(projectSlug, imageUrl, { format: 'bmp' as any })
+      ).toThrow(
+        'Invalid format. Supported formats are webp, png, avif, jpeg and gif.'
+      )
     })
 
     it('throws error when width is NaN', () => {
@@ -87,6 +89,12 @@ describe('buildImageUrl', () => {
         buildImageUrl(projectSlug, imageUrl, { width: -100 })
       ).toThrow('Width must be a positive number.')
     })
+
+    it.each([1.5, Infinity])('throws error when width is %s', (width) => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, { width })).toThrow(
+        'Width must be a whole number.'
+      )
+    })
   })
 
   describe('format handling', () => {
@@ -102,6 +110,12 @@ describe('buildImageUrl', () => {
       expect(result).toContain('format=png')
     })
 
+    it.each(['avif', 'jpeg', 'gif'] as const)('accepts %s format', (format) => {
+      const result = buildImageUrl(projectSlug, imageUrl, { format })
+
+      expect(result).toContain(`format=${format}`)
+    })
+
     it('converts format to lowercase', () => {
       const result = buildImageUrl(projectSlug, imageUrl, { format: 'webp' })
 
@@ -130,6 +144,398 @@ describe('buildImageUrl', () => {
     })
   })
 
+  describe('height handling', () => {
+    it('includes height when provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        height: 600
+      })
+
+      expect(result).toContain('width=800&height=600')
+    })
+
+    it('omits height parameter when not provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl)
+
+      expect(result).not.toContain('height=')
+    })
+
+    it('treats height of zero as omitted', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, { height: 0 })
+
+      expect(result).not.toContain('height=')
+    })
+
+    it('throws error when height is NaN', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { height: NaN })
+      ).toThrow('Height must be a number.')
+    })
+
+    it('throws error when height is negative', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { height: -100 })
+      ).toThrow('Height must be a positive number.')
+    })
+
+    it.each([1.5, Infinity])('throws error when height is %s', (height) => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, { height })).toThrow(
+        'Height must be a whole number.'
+      )
+    })
+  })
+
+  describe('aspect ratio handling', () => {
+    it('accepts numeric aspect ratios', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, { aspectRatio: 1.5 })
+
+      expect(result).toContain('aspectRatio=1.5')
+    })
+
+    it('accepts "width:height" aspect ratios', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        aspectRatio: '16:9'
+      })
+
+      expect(result).toContain('aspectRatio=16%3A9')
+    })
+
+    it('strips whitespace from string aspect ratios', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        aspectRatio: '4 / 3'
+      })
+
+      expect(result).toContain('aspectRatio=4%2F3')
+    })
+
+    it.each([0, -1, NaN, 'wide', '16:0', '0:9'])(
+      'throws error for invalid aspect ratio %s',
+      (aspectRatio) => {
+        expect(() =>
+          buildImageUrl(projectSlug, imageUrl, { aspectRatio })
+        ).toThrow(
+          'Aspect ratio must be a positive number or a "width:height" string.'
+        )
+      }
+    )
+  })
+
+  describe('fit handling', () => {
+    it.each(['cover', 'contain', 'fill', 'inside', 'outside'] as const)(
+      'accepts %s fit',
+      (fit) => {
+        const result = buildImageUrl(projectSlug, imageUrl, {
+          width: 200,
+          height: 200,
+          fit
+        })
+
+        expect(result).toContain(`fit=${fit}`)
+      }
+    )
+
+    it('omits fit parameter when not provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, { width: 200 })
+
+      expect(result).not.toContain('fit=')
+    })
+
+    it('throws error when fit is invalid', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { fit: 'stretch' as any })
+      ).toThrow(
+        'Invalid fit. Supported fits are cover, contain, fill, inside and outside.'
+      )
+    })
+  })
+
+  describe('enlargement handling', () => {
+    it('clamps the width to the intrinsic width', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 2048,
+        intrinsicWidth: 1200,
+        withoutEnlargement: true
+      })
+
+      expect(result).toContain('width=1200')
+      expect(result).toContain('withoutEnlargement=true')
+    })
+
+    it('scales both dimensions to keep the aspect ratio', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 1600,
+        height: 1200,
+        intrinsicWidth: 1000,
+        intrinsicHeight: 1000,
+        withoutEnlargement: true
+      })
+
+      expect(result).toContain('width=1000')
+      expect(result).toContain('height=750')
+    })
+
+    it('derives the missing dimension from the aspect ratio', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 1600,
+        aspectRatio: '16:9',
+        intrinsicHeight: 450,
+        withoutEnlargement: true
+      })
+
+      expect(result).toContain('width=800')
+    })
+
+    it('keeps dimensions that fit the source', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        intrinsicWidth: 1200,
+        withoutEnlargement: true
+      })
+
+      expect(result).toContain('width=800')
+    })
+
+    it('lets the service limit the size when the source size is unknown', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 2048,
+        withoutEnlargement: true
+      })
+
+      expect(result).toContain('width=2048')
+      expect(result).toContain('withoutEnlargement=true')
+    })
+
+    it('ignores the intrinsic size without withoutEnlargement', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 2048,
+        intrinsicWidth: 1200
+      })
+
+      expect(result).toContain('width=2048')
+      expect(result).not.toContain('intrinsic')
+      expect(result).not.toContain('withoutEnlargement')
+    })
+
+    it.each([
+      [{ intrinsicWidth: 0 }, 'Intrinsic width must be a positive number.'],
+      [{ intrinsicHeight: NaN }, 'Intrinsic height must be a positive number.']
+    ])('throws error for %j', (options, message) => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, options)).toThrow(
+        message
+      )
+    })
+  })
+
+  describe('gravity and focal point handling', () => {
+    it.each(['center', 'north', 'south-east', 'face', 'entropy'] as const)(
+      'accepts %s gravity',
+      (gravity) => {
+        const result = buildImageUrl(projectSlug, imageUrl, { gravity })
+
+        expect(result).toContain(`gravity=${gravity}`)
+      }
+    )
+
+    it('throws error when gravity is invalid', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { gravity: 'up' as any })
+      ).toThrow(
+        'Invalid gravity. Supported gravities are center, north, north-east, east, south-east, south, south-west, west, north-west, face, entropy.'
+      )
+    })
+
+    it('includes the focal point when provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        focusX: 0.3,
+        focusY: 0.25
+      })
+
+      expect(result).toContain('focusX=0.3&focusY=0.25')
+    })
+
+    it('accepts focal points on the edges', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        focusX: 0,
+        focusY: 1
+      })
+
+      expect(result).toContain('focusX=0&focusY=1')
+    })
+
+    it('throws error when focusX is NaN', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { focusX: NaN, focusY: 0.5 })
+      ).toThrow('Focus X must be a number.')
+    })
+
+    it.each([-0.1, 1.5])('throws error when focusY is %s', (focusY) => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { focusX: 0.5, focusY })
+      ).toThrow('Focus Y must be between 0 and 1.')
+    })
+
+    it('throws error when only one focal coordinate is provided', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { focusX: 0.5 })
+      ).toThrow('Focus X and focus Y must be provided together.')
+    })
+
+    it('throws error when gravity is combined with a focal point', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, {
+          gravity: 'north',
+          focusX: 0.5,
+          focusY: 0.5
+        })
+      ).toThrow('Use either gravity or a focal point, not both.')
+    })
+  })
+
+  describe('effects handling', () => {
+    it('includes effects when provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        blur: 10,
+        sharpen: 5,
+        rotate: 90,
+        flip: 'horizontal',
+        grayscale: true,
+        brightness: 20,
+        contrast: -10
+      })
+
+      expect(result).toContain(
+        'rotate=90&flip=horizontal&blur=10&sharpen=5&grayscale=true&brightness=20&contrast=-10'
+      )
+    })
+
+    it('produces identical URLs regardless of option order', () => {
+      const first = buildImageUrl(projectSlug, imageUrl, {
+        contrast: 10,
+        grayscale: true,
+        width: 400,
+        blur: 3,
+        rotate: 'auto'
+      })
+      const second = buildImageUrl(projectSlug, imageUrl, {
+        rotate: 'auto',
+        blur: 3,
+        width: 400,
+        grayscale: true,
+        contrast: 10
+      })
+
+      expect(first).toBe(second)
+    })
+
+    it('omits neutral effect values', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        rotate: 0,
+        grayscale: false,
+        brightness: 0,
+        contrast: 0
+      })
+
+      expect(result).toBe(buildImageUrl(projectSlug, imageUrl))
+    })
+
+    it('accepts auto rotation', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, { rotate: 'auto' })
+
+      expect(result).toContain('rotate=auto')
+    })
+
+    it('throws error when rotate is invalid', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { rotate: 45 as any })
+      ).toThrow('Rotate must be 90, 180, 270 or auto.')
+    })
+
+    it('throws error when flip is invalid', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { flip: 'diagonal' as any })
+      ).toThrow(
+        'Invalid flip. Supported flips are horizontal, vertical and both.'
+      )
+    })
+
+    it.each([
+      ['blur', 'Blur'],
+      ['sharpen', 'Sharpen'],
+      ['brightness', 'Brightness'],
+      ['contrast', 'Contrast']
+    ] as const)('throws error when %s is NaN', (key, label) => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { [key]: NaN })
+      ).toThrow(`${label} must be a number.`)
+    })
+
+    it.each([0, 101])('throws error when blur is %s', (blur) => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, { blur })).toThrow(
+        'Blur must be between 1 and 100.'
+      )
+    })
+
+    it.each([-101, 101])('throws error when brightness is %s', (brightness) => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { brightness })
+      ).toThrow('Brightness must be between -100 and 100.')
+    })
+  })
+
+  describe('quality handling', () => {
+    it('includes quality when provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        format: 'avif',
+        quality: 40
+      })
+
+      expect(result).toContain('format=avif')
+      expect(result).toContain('quality=40')
+    })
+
+    it('omits quality parameter when not provided', () => {
+      const result = buildImageUrl(projectSlug, imageUrl)
+
+      expect(result).not.toContain('quality=')
+    })
+
+    it('omits quality when it matches the format default', () => {
+      expect(buildImageUrl(projectSlug, imageUrl, { quality: 80 })).toBe(
+        buildImageUrl(projectSlug, imageUrl)
+      )
+      expect(
+        buildImageUrl(projectSlug, imageUrl, { format: 'avif', quality: 50 })
+      ).toBe(buildImageUrl(projectSlug, imageUrl, { format: 'avif' }))
+    })
+
+    it('includes quality for formats without a default', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        format: 'png',
+        quality: 80
+      })
+
+      expect(result).toContain('quality=80')
+    })
+
+    it('throws error when quality is NaN', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { quality: NaN })
+      ).toThrow('Quality must be a number.')
+    })
+
+    it.each([0, -5, 101])('throws error when quality is %s', (quality) => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, { quality })).toThrow(
+        'Quality must be between 1 and 100.'
+      )
+    })
+
+    it('throws error when quality is not a whole number', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { quality: 55.5 })
+      ).toThrow('Quality must be a whole number.')
+    })
+  })
+
   describe('real-world URL handling', () => {
     const realWorldUrls = [
       'https://userjot.com/assets/blog/canal-maze.webp',
@@ -282,6 +688,446 @@ describe('buildImageUrl', () => {
     })
   })
 
+  describe('already-transformed URLs', () => {
+    it('does not double-wrap Pixel Puppy URLs', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      const result = buildImageUrl(projectSlug, existing)
+
+      expect(result).toBe(existing)
+    })
+
+    it('merges new options over the existing ones', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, {
+        format: 'png',
+        width: 800
+      })
+      const result = buildImageUrl(projectSlug, existing, { width: 400 })
+
+      expect(result).toBe(
+        buildImageUrl(projectSlug, imageUrl, { format: 'png', width: 400 })
+      )
+    })
+
+    it('rescales the existing height when only the width changes', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        height: 600
+      })
+
+      expect(buildImageUrl(projectSlug, existing, { width: 400 })).toBe(
+        buildImageUrl(projectSlug, imageUrl, { width: 400, height: 300 })
+      )
+      expect(buildImageUrl(projectSlug, existing, { height: 300 })).toBe(
+        buildImageUrl(projectSlug, imageUrl, { width: 400, height: 300 })
+      )
+    })
+
+    it('drops an existing height without a width when the width changes', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, { height: 600 })
+
+      expect(buildImageUrl(projectSlug, existing, { width: 400 })).toBe(
+        buildImageUrl(projectSlug, imageUrl, { width: 400 })
+      )
+    })
+
+    it('replaces an existing gravity with a new focal point', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, {
+        width: 400,
+        gravity: 'north'
+      })
+
+      expect(
+        buildImageUrl(projectSlug, existing, { focusX: 0.2, focusY: 0.8 })
+      ).toBe(
+        buildImageUrl(projectSlug, imageUrl, {
+          width: 400,
+          focusX: 0.2,
+          focusY: 0.8
+        })
+      )
+    })
+
+    it('replaces an existing focal point with a new gravity', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, {
+        focusX: 0.2,
+        focusY: 0.8
+      })
+
+      expect(buildImageUrl(projectSlug, existing, { gravity: 'face' })).toBe(
+        buildImageUrl(projectSlug, imageUrl, { gravity: 'face' })
+      )
+    })
+
+    it('keeps existing options when new ones are undefined', () => {
+      const existing = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      const result = buildImageUrl(projectSlug, existing, { width: undefined })
+
+      expect(result).toContain('width=800')
+    })
+  })
+
+  describe('endpoint handling', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('uses a per-call endpoint', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        endpoint: 'https://images.example.com/api/image'
+      })
+
+      expect(result).toBe(
+        'https://images.example.com/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&format=webp'
+      )
+    })
+
+    it('uses the globally configured endpoint', () => {
+      configure({ endpoint: 'https://images.example.com/' })
+
+      expect(buildImageUrl(projectSlug, imageUrl)).toMatch(
+        /^https:\/\/images\.example\.com\?project=/
+      )
+    })
+
+    it('prefers the per-call endpoint over global config', () => {
+      configure({ endpoint: 'https://images.example.com/api/image' })
+
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        endpoint: 'https://staging.example.com/api/image'
+      })
+
+      expect(result).toMatch(/^https:\/\/staging\.example\.com\/api\/image\?/)
+    })
+
+    it('normalizes the endpoint', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        endpoint: 'https://Images.Example.com/api/image/'
+      })
+
+      expect(result).toMatch(/^https:\/\/images\.example\.com\/api\/image\?/)
+    })
+
+    it('throws for invalid endpoints', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { endpoint: '/api/image' })
+      ).toThrow(
+        'Endpoint must be an absolute http(s) URL without a query string or fragment.'
+      )
+    })
+
+    it('does not apply the onInvalid policy to the endpoint', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, {
+          endpoint: '/api/image',
+          onInvalid: 'fallback-to-original'
+        })
+      ).toThrow('Endpoint must be an absolute http(s) URL')
+    })
+
+    it('unwraps URLs from the configured endpoint', () => {
+      configure({ endpoint: 'https://images.example.com/api/image' })
+
+      const stored = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      const result = buildImageUrl(projectSlug, stored, { format: 'png' })
+
+      expect(result).toBe(
+        buildImageUrl(projectSlug, imageUrl, { format: 'png', width: 800 })
+      )
+    })
+
+    it('moves URLs from the default endpoint to the configured one', () => {
+      const stored = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+
+      configure({ endpoint: 'https://images.example.com/api/image' })
+
+      expect(buildImageUrl(projectSlug, stored)).toBe(
+        buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      )
+    })
+
+    it('unwraps URLs from a per-call endpoint', () => {
+      const endpoint = 'https://staging.example.com/api/image'
+      const stored = buildImageUrl(projectSlug, imageUrl, {
+        endpoint,
+        width: 800
+      })
+
+      expect(buildImageUrl(projectSlug, stored, { endpoint })).toBe(stored)
+    })
+  })
+
+  describe('url style handling', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('builds path-style URLs per call', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        format: 'webp',
+        urlStyle: 'path',
+        width: 800
+      })
+
+      expect(result).toBe(
+        'https://pixelpuppy.io/api/image/p/test-project/w_800,f_webp/https/example.com/image.jpg'
+      )
+    })
+
+    it('uses the globally configured url style', () => {
+      configure({ urlStyle: 'path' })
+
+      expect(buildImageUrl(projectSlug, imageUrl)).toBe(
+        'https://pixelpuppy.io/api/image/p/test-project/f_webp/https/example.com/image.jpg'
+      )
+    })
+
+    it('prefers the per-call url style over global config', () => {
+      configure({ urlStyle: 'path' })
+
+      expect(buildImageUrl(projectSlug, imageUrl, { urlStyle: 'query' })).toBe(
+        'https://pixelpuppy.io/api/image?project=test-project&url=https%3A%2F%2Fexample.com%2Fimage.jpg&format=webp'
+      )
+    })
+
+    it('encodes sources with a query string with base64url', () => {
+      const result = buildImageUrl(
+        projectSlug,
+        'https://example.com/photo.jpg?v=2',
+        { urlStyle: 'path' }
+      )
+
+      expect(result).toBe(
+        'https://pixelpuppy.io/api/image/p/test-project/f_webp/b64/aHR0cHM6Ly9leGFtcGxlLmNvbS9waG90by5qcGc_dj0y'
+      )
+    })
+
+    it('combines with a custom endpoint', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        endpoint: 'https://images.example.com',
+        urlStyle: 'path'
+      })
+
+      expect(result).toBe(
+        'https://images.example.com/p/test-project/f_webp/https/example.com/image.jpg'
+      )
+    })
+
+    it('throws for invalid url styles', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, {
+          onInvalid: 'fallback-to-original',
+          urlStyle: 'segments' as any
+        })
+      ).toThrow('Invalid urlStyle. Supported styles are query and path.')
+    })
+
+    it('converts between url styles when unwrapping', () => {
+      const query = buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      const path = buildImageUrl(projectSlug, query, { urlStyle: 'path' })
+
+      expect(path).toBe(
+        buildImageUrl(projectSlug, imageUrl, { urlStyle: 'path', width: 800 })
+      )
+      expect(buildImageUrl(projectSlug, path, { quality: 50 })).toBe(
+        buildImageUrl(projectSlug, imageUrl, { quality: 50, width: 800 })
+      )
+    })
+  })
+
+  describe('source normalization', () => {
+    const spellings = [
+      'https://Example.com/image.jpg',
+      'https://example.com/./image.jpg?utm_source=x',
+      'https://example.com/image.jpg#top'
+    ]
+
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('keeps the source as given by default', () => {
+      const urls = spellings.map((source) => buildImageUrl(projectSlug, source))
+
+      expect(new Set(urls).size).toBe(spellings.length)
+    })
+
+    it('builds one URL for every spelling per call', () => {
+      for (const source of spellings) {
+        expect(
+          buildImageUrl(projectSlug, source, { normalizeSource: true })
+        ).toBe(buildImageUrl(projectSlug, imageUrl))
+      }
+    })
+
+    it('uses the globally configured rules', () => {
+      configure({ normalizeSource: { removeParams: ['ref'] } })
+
+      expect(
+        buildImageUrl(projectSlug, `${imageUrl}?ref=mail&utm_source=x`)
+      ).toBe(buildImageUrl(projectSlug, `${imageUrl}?utm_source=x`))
+    })
+
+    it('prefers the per-call setting over global config', () => {
+      configure({ normalizeSource: true })
+
+      expect(
+        buildImageUrl(projectSlug, spellings[2] ?? '', {
+          normalizeSource: false
+        })
+      ).toContain('%23top')
+    })
+
+    it('normalizes resolved relative URLs', () => {
+      expect(
+        buildImageUrl(projectSlug, '/images/../image.jpg?utm_medium=mail', {
+          baseUrl: 'https://Example.com',
+          normalizeSource: true
+        })
+      ).toBe(buildImageUrl(projectSlug, imageUrl))
+    })
+
+    it('normalizes the source of unwrapped URLs', () => {
+      const stored = buildImageUrl(projectSlug, spellings[1] ?? '', {
+        width: 800
+      })
+
+      expect(
+        buildImageUrl(projectSlug, stored, { normalizeSource: true })
+      ).toBe(buildImageUrl(projectSlug, imageUrl, { width: 800 }))
+    })
+  })
+
+  describe('invalid option policies', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('throws by default', () => {
+      expect(() => buildImageUrl(projectSlug, imageUrl, { width: -1 })).toThrow(
+        'Width must be a positive number.'
+      )
+    })
+
+    it('falls back to the original image', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: -1,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result).toBe(imageUrl)
+    })
+
+    it('falls back to the resolved original for relative URLs', () => {
+      const result = buildImageUrl(projectSlug, '/images/hero.jpg', {
+        baseUrl: 'https://example.com',
+        quality: 0,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(result).toBe('https://example.com/images/hero.jpg')
+    })
+
+    it('drops invalid options and keeps the rest', () => {
+      const result = buildImageUrl(projectSlug, imageUrl, {
+        width: 800,
+        quality: 150,
+        blur: 500,
+        grayscale: true,
+        onInvalid: 'drop-option'
+      })
+
+      expect(result).toBe(
+        buildImageUrl(projectSlug, imageUrl, { width: 800, grayscale: true })
+      )
+    })
+
+    it('uses the globally configured policy', () => {
+      configure({ onInvalid: 'fallback-to-original' })
+
+      expect(buildImageUrl(projectSlug, imageUrl, { width: -1 })).toBe(imageUrl)
+    })
+
+    it('prefers the per-call policy over global config', () => {
+      configure({ onInvalid: 'fallback-to-original' })
+
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, { width: -1, onInvalid: 'throw' })
+      ).toThrow('Width must be a positive number.')
+    })
+
+    it('does not apply the policy to a missing project', () => {
+      expect(() =>
+        buildImageUrl('', imageUrl, { onInvalid: 'fallback-to-original' })
+      ).toThrow('projectSlug is required.')
+    })
+
+    it('throws for an unsupported policy when an option is invalid', () => {
+      expect(() =>
+        buildImageUrl(projectSlug, imageUrl, {
+          width: -1,
+          onInvalid: 'ignore' as any
+        })
+      ).toThrow(
+        'Invalid onInvalid. Supported policies are throw, fallback-to-original and drop-option.'
+      )
+    })
+  })
+
+  describe('safeBuildImageUrl', () => {
+    beforeEach(() => {
+      resetConfig()
+    })
+
+    it('returns the URL for valid options', () => {
+      expect(safeBuildImageUrl(projectSlug, imageUrl, { width: 800 })).toEqual({
+        success: true,
+        url: buildImageUrl(projectSlug, imageUrl, { width: 800 })
+      })
+    })
+
+    it('lists every invalid option', () => {
+      const result = safeBuildImageUrl(projectSlug, imageUrl, {
+        width: -1,
+        quality: 150
+      })
+
+      expect(result).toMatchObject({
+        issues: [
+          { code: 'INVALID_WIDTH', path: 'width', value: -1 },
+          { code: 'INVALID_QUALITY', path: 'quality', value: 150 }
+        ],
+        success: false
+      })
+    })
+
+    it('reports missing arguments before invalid options', () => {
+      const result = safeBuildImageUrl('', imageUrl, { width: -1 })
+
+      expect(result).toMatchObject({
+        issues: [
+          { code: 'MISSING_PROJECT', path: 'projectSlug' },
+          { code: 'INVALID_WIDTH', path: 'width' }
+        ],
+        success: false
+      })
+    })
+
+    it('reports unresolvable relative URLs', () => {
+      expect(safeBuildImageUrl(projectSlug, '/images/hero.jpg')).toMatchObject({
+        issues: [{ code: 'UNRESOLVABLE_RELATIVE_URL', path: 'baseUrl' }],
+        success: false
+      })
+    })
+
+    it('ignores the onInvalid policy', () => {
+      configure({ onInvalid: 'drop-option' })
+
+      expect(
+        safeBuildImageUrl(projectSlug, imageUrl, { width: -1 }).success
+      ).toBe(false)
+    })
+  })
+
   describe('relative URL support', () => {
     beforeEach(() => {
       resetConfig()
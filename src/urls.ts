@@ -1,11 +1,47 @@
-import invariant from 'tiny-invariant'
-
-import { resolveUrl } from './url-utils'
+import { getDefaultClient } from './client'
+import { getEndpoint, getSourceNormalization, getUrlStyle } from './config'
+import {
+  getAspectRatioValue,
+  getDownscaleFactor,
+  type FitMode,
+  type Gravity,
+  type SourceSize
+} from './dimensions'
+import { appendEffectParams, type ImageEffects } from './effects'
+import {
+  MissingOptionError,
+  PixelPuppyError,
+  type ValidationIssue
+} from './errors'
+import { defaultQualities, type ImageFormat } from './formats'
+import { withoutUndefined } from './object-utils'
+import { parseImageUrl } from './parse'
+import { toPathUrl, type UrlStyle } from './path-urls'
+import {
+  normalizeSourceUrl,
+  resolveUrl,
+  type SourceNormalizationOptions
+} from './url-utils'
+import {
+  getInvalidOptionPolicy,
+  getTransformationIssues,
+  isOptionError,
+  toInvalidOptionError,
+  toValidationIssue,
+  withoutInvalidOptions,
+  type InvalidOptionPolicy
+} from './validation'
 
 /**
  * Options for image transformation
  */
-export interface TransformationOptions {
+export interface TransformationOptions extends ImageEffects, SourceSize {
+  /**
+   * The desired aspect ratio, either as a number (width / height) or as a
+   * "width:height" string such as '16:9'.
+   * Combined with width or height, the other dimension is derived from it.
+   */
+  aspectRatio?: number | string
   /**
    * Base URL to prepend to relative image URLs.
    * Overrides any globally configured baseUrl for this call only.
@@ -14,14 +50,122 @@ export interface TransformationOptions {
    * buildImageUrl('project', '/images/hero.webp', { baseUrl: 'https://cdn.example.com' })
    */
   baseUrl?: string
+  /**
+   * The image transformation endpoint, e.g. a custom domain pointing at
+   * Pixel Puppy. Overrides any globally configured endpoint for this call
+   * only.
+   *
+   * @example
+   * buildImageUrl('project', '/images/hero.webp', {
+   *   endpoint: 'https://images.example.com/api/image'
+   * })
+   */
+  endpoint?: string
   /**
    * The desired image format. Defaults to 'webp'.
    */
-  format?: 'webp' | 'png'
+  format?: ImageFormat
+  /**
+   * How the image should fit the requested dimensions.
+   * Only has an effect when both dimensions are constrained.
+   */
+  fit?: FitMode
+  /**
+   * Horizontal focal point as a fraction of the width (0 is the left edge,
+   * 1 the right edge). Must be combined with focusY.
+   */
+  focusX?: number
+  /**
+   * Vertical focal point as a fraction of the height (0 is the top edge,
+   * 1 the bottom edge). Must be combined with focusX.
+   */
+  focusY?: number
+  /**
+   * Which part of the image to keep when cropping. Defaults to 'center'.
+   * Cannot be combined with focusX and focusY.
+   */
+  gravity?: Gravity
+  /**
+   * The desired height of the image in pixels.
+   */
+  height?: number
+  /**
+   * Normalizes the source URL so different spellings of the same asset share
+   * one transformation URL. Overrides any globally configured normalizeSource
+   * for this call only.
+   * @default false
+   */
+  normalizeSource?: boolean | SourceNormalizationOptions
+  /**
+   * How invalid options are handled. Overrides any globally configured
+   * onInvalid for this call only.
+   * @default 'throw'
+   */
+  onInvalid?: InvalidOptionPolicy
+  /**
+   * The desired compression quality, a whole number from 1 to 100.
+   * When omitted (or equal to the format's default), the service applies the
+   * default quality for the format.
+   */
+  quality?: number
+  /**
+   * How the URL is laid out. Overrides any globally configured urlStyle for
+   * this call only.
+   * @default 'query'
+   */
+  urlStyle?: UrlStyle
   /**
    * The desired width of the image in pixels.
    */
   width?: number
+  /**
+   * Prevents the image from being scaled up beyond its source size.
+   * When intrinsicWidth or intrinsicHeight is known, the requested
+   * dimensions are scaled down to fit the source; otherwise the service
+   * returns the image at its source size instead of enlarging it.
+   */
+  withoutEnlargement?: boolean
+}
+
+/**
+ * Merges the options of a call over the options parsed from an existing
+ * Pixel Puppy URL. Parsed options that would conflict with the new ones are
+ * replaced: a new width or height rescales the other parsed dimension, and a
+ * new focal point replaces a parsed gravity and the other way round.
+ */
+function mergeParsedOptions(
+  parsed: TransformationOptions,
+  options: TransformationOptions
+): TransformationOptions {
+  const overrides = withoutUndefined(options)
+  const merged = { ...parsed }
+
+  if (overrides.width !== undefined || overrides.height !== undefined) {
+    const { height, width } = parsed
+
+    delete merged.height
+    delete merged.width
+
+    // Keep the parsed proportions when only one dimension changes
+    if (width && height && overrides.height === undefined && overrides.width) {
+      merged.height = Math.round((overrides.width * height) / width)
+    }
+
+    if (width && height && overrides.width === undefined && overrides.height) {
+      merged.width = Math.round((overrides.height * width) / height)
+    }
+  }
+
+  if (overrides.focusX !== undefined || overrides.focusY !== undefined) {
+    delete merged.gravity
+  }
+
+  if (overrides.gravity !== undefined) {
+    delete merged.focusX
+    delete merged.focusY
+  }
+
+  return { ...merged, ...overrides }
 }
 
 /**
@@ -29,23 +173,54 @@ export interface TransformationOptions {
  *
  * This function constructs a properly formatted URL that can be used to transform
  * images through the Pixel Puppy service. The service supports format conversion
- * (WebP, PNG) and resizing operations.
+ * (WebP, PNG, AVIF, JPEG, GIF) and resizing operations.
  *
  * @param projectSlug - The project identifier for your Pixel Puppy account
  * @param originalImageUrl - The URL of the original image to transform
  * @param options - Optional transformation settings
  * @param options.baseUrl - Base URL for resolving relative image URLs
- * @param options.format - The desired output format ('webp' or 'png'). Defaults to 'webp'
+ * @param options.endpoint - The transformation endpoint, e.g. a custom domain. Defaults to the configured endpoint or https://pixelpuppy.io/api/image
+ * @param options.format - The desired output format ('webp', 'png', 'avif', 'jpeg' or 'gif'). Defaults to 'webp'
  * @param options.width - The desired width in pixels. Maintains aspect ratio when resizing
+ * @param options.height - The desired height in pixels
+ * @param options.aspectRatio - The desired aspect ratio, e.g. 1.5 or '16:9'
+ * @param options.fit - How the image fits both dimensions ('cover', 'contain', 'fill', 'inside' or 'outside')
+ * @param options.gravity - Which part of the image to keep when cropping, e.g. 'north' or 'face'
+ * @param options.focusX - Horizontal focal point from 0 to 1
+ * @param options.focusY - Vertical focal point from 0 to 1
+ * @param options.blur - Blur radius from 1 to 100
+ * @param options.sharpen - Sharpen amount from 1 to 100
+ * @param options.rotate - Clockwise rotation (90, 180 or 270) or 'auto' to orient by EXIF data
+ * @param options.flip - Mirror the image ('horizontal', 'vertical' or 'both')
+ * @param options.grayscale - Convert the image to grayscale
+ * @param options.brightness - Brightness adjustment from -100 to 100
+ * @param options.contrast - Contrast adjustment from -100 to 100
+ * @param options.quality - The compression quality, a whole number from 1 to 100. Defaults to the format's default quality
+ * @param options.intrinsicWidth - The width of the source image in pixels, if known
+ * @param options.intrinsicHeight - The height of the source image in pixels, if known
+ * @param options.withoutEnlargement - Never scale the image up beyond its source size
+ * @param options.urlStyle - 'query' for query-string URLs or 'path' for path-style URLs. Defaults to 'query'
+ * @param options.normalizeSource - Normalize the source URL (host case, default port, dot segments, fragment, tracking parameters, query order). Defaults to false
+ * @param options.onInvalid - How invalid options are handled ('throw', 'fallback-to-original' or 'drop-option'). Defaults to 'throw'
  *
  * @returns The complete Pixel Puppy transformation URL
  *
- * @throws {Error} When projectSlug is not provided
- * @throws {Error} When originalImageUrl is not provided
- * @throws {Error} When originalImageUrl is relative and no baseUrl is configured
- * @throws {Error} When format is not 'webp' or 'png'
- * @throws {Error} When width is not a valid number
- * @throws {Error} When width is not a positive number
+ * @throws {MissingOptionError} MISSING_PROJECT when projectSlug is not provided
+ * @throws {MissingOptionError} MISSING_SOURCE when originalImageUrl is not provided
+ * @throws {InvalidOptionError} INVALID_ENDPOINT when endpoint is not an absolute http(s) URL without a query string or fragment
+ * @throws {InvalidOptionError} INVALID_URL_STYLE when urlStyle is not a supported style
+ * @throws {PixelPuppyError} UNRESOLVABLE_RELATIVE_URL when originalImageUrl is relative and no baseUrl is configured
+ * @throws {InvalidOptionError} INVALID_FORMAT when format is not a supported format
+ * @throws {InvalidOptionError} INVALID_WIDTH when width is not a positive whole number
+ * @throws {InvalidOptionError} INVALID_HEIGHT when height is not a positive whole number
+ * @throws {InvalidOptionError} INVALID_ASPECT_RATIO when aspectRatio is not a positive number or "width:height" string
+ * @throws {InvalidOptionError} INVALID_FIT when fit is not a supported fit mode
+ * @throws {InvalidOptionError} INVALID_QUALITY when quality is not a whole number between 1 and 100
+ * @throws {InvalidOptionError} INVALID_GRAVITY when gravity is not a supported gravity
+ * @throws {InvalidOptionError} INVALID_FOCAL_POINT when focusX or focusY is not a number between 0 and 1, only one of them is provided, or they are combined with gravity
+ * @throws {InvalidOptionError} INVALID_EFFECT when an effect option is outside its supported range
+ * @throws {InvalidOptionError} INVALID_INTRINSIC_SIZE when intrinsicWidth or intrinsicHeight is not a positive number
+ * @throws {InvalidOptionError} INVALID_POLICY when an option is invalid and onInvalid is not a supported policy
  *
  * @example
  * Basic usage with absolute URL:
@@ -73,12 +248,103 @@ export interface TransformationOptions {
  * ```
  *
  * @example
+ * Serve images through a custom domain:
+ * ```ts
+ * configure({ endpoint: 'https://images.example.com/api/image' })
+ *
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg')
+ * // Returns: https://images.example.com/api/image?project=my-project&url=...&format=webp
+ * ```
+ *
+ * @example
+ * Path-style URL for CDNs that cache query strings poorly:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: 800,
+ *   urlStyle: 'path'
+ * })
+ * // Returns: https://pixelpuppy.io/api/image/p/my-project/w_800,f_webp/https/example.com/photo.jpg
+ * ```
+ *
+ * @example
+ * Share one transformation URL between spellings of the same source:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://Example.com/./photo.jpg?utm_source=mail#top', {
+ *   normalizeSource: true
+ * })
+ * // Same as buildImageUrl('my-project', 'https://example.com/photo.jpg')
+ * ```
+ *
+ * @example
  * Resize to specific width:
  * ```ts
  * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', { width: 800 })
  * ```
  *
  * @example
+ * Square avatar cropped to fill the box:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: 128,
+ *   aspectRatio: '1:1',
+ *   fit: 'cover'
+ * })
+ * ```
+ *
+ * @example
+ * Keep the subject in frame at a known focal point:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: 400,
+ *   aspectRatio: '1:1',
+ *   focusX: 0.3,
+ *   focusY: 0.25
+ * })
+ * ```
+ *
+ * @example
+ * Apply effects (parameters are always serialized in the same order):
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   rotate: 'auto',
+ *   grayscale: true,
+ *   blur: 10
+ * })
+ * ```
+ *
+ * @example
+ * Never upscale a source that is known to be 1200px wide:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: 2048,
+ *   intrinsicWidth: 1200,
+ *   withoutEnlargement: true
+ * })
+ * // Requests width=1200
+ * ```
+ *
+ * @example
+ * Derive a variant from an existing Pixel Puppy URL (options are merged):
+ * ```ts
+ * const thumbnail = buildImageUrl('my-project', storedUrl, { width: 200 })
+ * ```
+ *
+ * @example
+ * Convert to AVIF with a custom quality:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', { format: 'avif', quality: 40 })
+ * ```
+ *
+ * @example
+ * Serve the original image rather than failing on bad CMS data:
+ * ```ts
+ * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: entry.width,
+ *   onInvalid: 'fallback-to-original'
+ * })
+ * ```
+ *
+ * @example
  * Convert to PNG format:
  * ```ts
  * const url = buildImageUrl('my-project', 'https://example.com/photo.jpg', { format: 'png' })
@@ -89,32 +355,111 @@ export function buildImageUrl(
   originalImageUrl: string,
   options: TransformationOptions = {}
 ): string {
-  invariant(projectSlug, 'projectSlug is required.')
-  invariant(originalImageUrl, 'originalImageUrl is required.')
+  return getDefaultClient(projectSlug).url(originalImageUrl, options)
+}
+
+/**
+ * Builds the transformation URL behind buildImageUrl and a client's url(),
+ * from options that already include the caller's defaults
+ */
+export function createImageUrl(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: TransformationOptions = {}
+): string {
+  if (!projectSlug) {
+    throw new MissingOptionError(
+      'MISSING_PROJECT',
+      'projectSlug is required.',
+      {
+        option: 'projectSlug'
+      }
+    )
+  }
+
+  if (!originalImageUrl) {
+    throw new MissingOptionError(
+      'MISSING_SOURCE',
+      'originalImageUrl is required.',
+      { option: 'originalImageUrl' }
+    )
+  }
+
+  const endpoint = getEndpoint(options.endpoint)
+  const urlStyle = getUrlStyle(options.urlStyle)
+
+  // Unwrap URLs that already point at Pixel Puppy and merge their options
+  // instead of transforming the transformed image again
+  const existing = parseImageUrl(originalImageUrl, { endpoint })
+
+  if (existing.success) {
+    return createImageUrl(projectSlug, existing.sourceUrl, {
+      ...mergeParsedOptions(existing.options, options),
+      // Always build for the endpoint and style of this call, not the parsed
+      // ones
+      endpoint: options.endpoint ?? endpoint,
+      urlStyle: options.urlStyle ?? urlStyle
+    })
+  }
 
   // Resolve relative URLs to absolute
   const resolvedUrl = resolveUrl(originalImageUrl, options.baseUrl)
 
-  const baseUrl = `https://pixelpuppy.io/api/image`
-  const params = new URLSearchParams()
+  const issues = getTransformationIssues(options)
+  const [issue] = issues
 
-  const format = options.format || 'webp'
-  const width = options.width
+  if (issue) {
+    const onInvalid = getInvalidOptionPolicy(options.onInvalid)
 
-  if (format !== 'webp' && format !== 'png') {
-    throw new Error('Invalid format. Supported formats are webp and png.')
-  }
+    if (onInvalid === 'fallback-to-original') {
+      return resolvedUrl
+    }
 
-  if (Number.isNaN(width)) {
-    throw new Error('Width must be a number.')
+    if (onInvalid === 'drop-option') {
+      return createImageUrl(
+        projectSlug,
+        resolvedUrl,
+        withoutInvalidOptions(options)
+      )
+    }
+
+    throw toInvalidOptionError(issue)
   }
 
-  if (width && width <= 0) {
-    throw new Error('Width must be a positive number.')
+  const params = new URLSearchParams()
+
+  const format = options.format || 'webp'
+  const {
+    aspectRatio,
+    fit,
+    focusX,
+    focusY,
+    gravity,
+    quality,
+    withoutEnlargement
+  } = options
+  let { height, width } = options
+
+  if (withoutEnlargement) {
+    const factor = getDownscaleFactor(
+      { height, width },
+      aspectRatio !== undefined ? getAspectRatioValue(aspectRatio) : undefined,
+      options
+    )
+
+    if (factor < 1) {
+      width = width && Math.round(width * factor)
+      height = height && Math.round(height * factor)
+    }
   }
 
   params.append('project', projectSlug)
-  params.append('url', resolvedUrl)
+  const normalization = getSourceNormalization(options.normalizeSource)
+
+  params.append(
+    'url',
+    normalization ? normalizeSourceUrl(resolvedUrl, normalization) : resolvedUrl
+  )
 
   params.append('format', format.toLowerCase())
 
@@ -122,5 +467,109 @@ export function buildImageUrl(
     params.append('width', width.toString())
   }
 
-  return `${baseUrl}?${params.toString()}`
+  if (height) {
+    params.append('height', height.toString())
+  }
+
+  if (aspectRatio !== undefined) {
+    params.append('aspectRatio', aspectRatio.toString().replace(/\s/g, ''))
+  }
+
+  if (fit) {
+    params.append('fit', fit)
+  }
+
+  if (withoutEnlargement) {
+    params.append('withoutEnlargement', 'true')
+  }
+
+  if (gravity) {
+    params.append('gravity', gravity)
+  }
+
+  if (focusX !== undefined && focusY !== undefined) {
+    params.append('focusX', focusX.toString())
+    params.append('focusY', focusY.toString())
+  }
+
+  // The format's default quality is left out so equivalent transformations
+  // share one URL
+  if (quality !== undefined && quality !== defaultQualities[format]) {
+    params.append('quality', quality.toString())
+  }
+
+  appendEffectParams(params, options)
+
+  if (urlStyle === 'path') {
+    return toPathUrl(endpoint, params)
+  }
+
+  return `${endpoint}?${params.toString()}`
+}
+
+/**
+ * The result of safeBuildImageUrl
+ */
+export type SafeBuildImageUrlResult =
+  | { success: true; url: string }
+  | {
+      /**
+       * Every problem found, in the order the options are checked
+       */
+      issues: ValidationIssue[]
+      success: false
+    }
+
+/**
+ * Builds a Pixel Puppy URL without throwing.
+ *
+ * Unlike buildImageUrl, every invalid option is reported rather than only the
+ * first one, and missing arguments are reported as issues as well. The
+ * onInvalid policy is ignored.
+ *
+ * @param projectSlug - The project identifier for your Pixel Puppy account
+ * @param originalImageUrl - The URL of the original image to transform
+ * @param options - Optional transformation settings, as for buildImageUrl
+ * @returns `{ success: true, url }`, or `{ success: false, issues }` with one issue per problem
+ *
+ * @example
+ * const result = safeBuildImageUrl('my-project', 'https://example.com/photo.jpg', {
+ *   width: -1,
+ *   quality: 150
+ * })
+ *
+ * if (result.success) {
+ *   image.src = result.url
+ * } else {
+ *   console.warn(result.issues.map((issue) => issue.path))
+ *   // ['width', 'quality']
+ * }
+ */
+export function safeBuildImageUrl(
+  projectSlug: string,
+  originalImageUrl: string,
+  options: TransformationOptions = {}
+): SafeBuildImageUrlResult {
+  try {
+    return {
+      success: true,
+      url: buildImageUrl(projectSlug, originalImageUrl, {
+        ...options,
+        onInvalid: 'throw'
+      })
+    }
+  } catch (error) {
+    if (!(error instanceof PixelPuppyError)) {
+      throw error
+    }
+
+    // Report every invalid option, not only the one that was thrown
+    const issues = getTransformationIssues(options)
+
+    if (!isOptionError(error) || issues.length === 0) {
+      issues.unshift(toValidationIssue(error))
+    }
+
+    return { issues, success: false }
+  }
 }
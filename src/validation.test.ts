@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest'
+
+import { buildImageUrl } from './urls'
+import {
+  validateTransformationOptions,
+  withoutInvalidOptions
+} from './validation'
+
+describe('validateTransformationOptions', () => {
+  it('succeeds for valid options', () => {
+    expect(
+      validateTransformationOptions({
+        width: 800,
+        aspectRatio: '16:9',
+        focusX: 0.3,
+        focusY: 0.6,
+        quality: 75
+      })
+    ).toEqual({ success: true })
+  })
+
+  it('succeeds without options', () => {
+    expect(validateTransformationOptions({})).toEqual({ success: true })
+  })
+
+  it('lists every problem in the order buildImageUrl checks them', () => {
+    const result = validateTransformationOptions({
+      width: -1,
+      fit: 'stretch' as any,
+      blur: 500,
+      quality: 150
+    })
+
+    expect(result).toEqual({
+      issues: [
+        {
+          code: 'INVALID_WIDTH',
+          message: 'Width must be a positive number.',
+          path: 'width',
+          value: -1
+        },
+        {
+          code: 'INVALID_FIT',
+          message:
+            'Invalid fit. Supported fits are cover, contain, fill, inside and outside.',
+          path: 'fit',
+          value: 'stretch'
+        },
+        {
+          code: 'INVALID_EFFECT',
+          message: 'Blur must be between 1 and 100.',
+          path: 'blur',
+          value: 500
+        },
+        {
+          code: 'INVALID_QUALITY',
+          message: 'Quality must be between 1 and 100.',
+          path: 'quality',
+          value: 150
+        }
+      ],
+      success: false
+    })
+  })
+
+  it('reports the same first problem that buildImageUrl throws', () => {
+    const options = { height: Number.NaN, quality: 0 }
+    const result = validateTransformationOptions(options)
+
+    expect(result.success).toBe(false)
+
+    if (!result.success) {
+      expect(() =>
+        buildImageUrl('test-project', 'https://example.com/image.jpg', options)
+      ).toThrow(result.issues[0]?.message)
+    }
+  })
+
+  it('reports a lone focal coordinate on the provided one', () => {
+    const result = validateTransformationOptions({ focusY: 0.5 })
+
+    expect(result).toMatchObject({
+      issues: [{ code: 'INVALID_FOCAL_POINT', path: 'focusY', value: 0.5 }],
+      success: false
+    })
+  })
+
+  it('reports effects and source sizes', () => {
+    const result = validateTransformationOptions({
+      flip: 'diagonal' as any,
+      intrinsicWidth: 0
+    })
+
+    expect(result.success).toBe(false)
+
+    if (!result.success) {
+      expect(result.issues.map((issue) => issue.path)).toEqual([
+        'flip',
+        'intrinsicWidth'
+      ])
+    }
+  })
+})
+
+describe('withoutInvalidOptions', () => {
+  it('keeps valid options', () => {
+    expect(withoutInvalidOptions({ width: 800, quality: 150 })).toEqual({
+      width: 800
+    })
+  })
+
+  it('drops the other half of a focal point', () => {
+    expect(
+      withoutInvalidOptions({ width: 800, focusX: 2, focusY: 0.5 })
+    ).toEqual({ width: 800 })
+  })
+
+  it('keeps the focal point when gravity is invalid', () => {
+    expect(
+      withoutInvalidOptions({
+        gravity: 'middle' as any,
+        focusX: 0.2,
+        focusY: 0.8
+      })
+    ).toEqual({ focusX: 0.2, focusY: 0.8 })
+  })
+})
@@ -0,0 +1,336 @@
+import { getConfig } from './config'
+import {
+  fitModes,
+  getAspectRatioValue,
+  getSourceSizeIssues,
+  gravities
+} from './dimensions'
+import { getEffectIssues } from './effects'
+import {
+  InvalidOptionError,
+  MissingOptionError,
+  PixelPuppyError,
+  type ValidationIssue
+} from './errors'
+import { isImageFormat, supportedFormatsText } from './formats'
+import type { TransformationOptions } from './urls'
+
+/**
+ * Supported ways of handling invalid options
+ */
+export const invalidOptionPolicies = [
+  'throw',
+  'fallback-to-original',
+  'drop-option'
+] as const
+
+/**
+ * How invalid options are handled:
+ * - 'throw' throws an InvalidOptionError for the first problem
+ * - 'fallback-to-original' returns the original image URL untransformed
+ * - 'drop-option' leaves out every invalid option and keeps the rest
+ */
+export type InvalidOptionPolicy = (typeof invalidOptionPolicies)[number]
+
+/**
+ * The result of validating options
+ */
+export type ValidationResult =
+  | { success: true }
+  | {
+      /**
+       * Every problem found, in the order the options are checked
+       */
+      issues: ValidationIssue[]
+      success: false
+    }
+
+/**
+ * Collects every problem with the transformation options, in the order
+ * buildImageUrl checks them
+ */
+export function getTransformationIssues(
+  options: TransformationOptions
+): ValidationIssue[] {
+  const issues: ValidationIssue[] = []
+  const { aspectRatio, fit, focusX, focusY, gravity, height, quality, width } =
+    options
+  const format = options.format || 'webp'
+
+  if (!isImageFormat(format)) {
+    issues.push({
+      code: 'INVALID_FORMAT',
+      message: `Invalid format. Supported formats are ${supportedFormatsText}.`,
+      path: 'format',
+      value: format
+    })
+  }
+
+  if (Number.isNaN(width)) {
+    issues.push({
+      code: 'INVALID_WIDTH',
+      message: 'Width must be a number.',
+      path: 'width',
+      value: width
+    })
+  } else if (width && width <= 0) {
+    issues.push({
+      code: 'INVALID_WIDTH',
+      message: 'Width must be a positive number.',
+      path: 'width',
+      value: width
+    })
+  } else if (width && !Number.isInteger(width)) {
+    issues.push({
+      code: 'INVALID_WIDTH',
+      message: 'Width must be a whole number.',
+      path: 'width',
+      value: width
+    })
+  }
+
+  if (Number.isNaN(height)) {
+    issues.push({
+      code: 'INVALID_HEIGHT',
+      message: 'Height must be a number.',
+      path: 'height',
+      value: height
+    })
+  } else if (height && height <= 0) {
+    issues.push({
+      code: 'INVALID_HEIGHT',
+      message: 'Height must be a positive number.',
+      path: 'height',
+      value: height
+    })
+  } else if (height && !Number.isInteger(height)) {
+    issues.push({
+      code: 'INVALID_HEIGHT',
+      message: 'Height must be a whole number.',
+      path: 'height',
+      value: height
+    })
+  }
+
+  if (
+    aspectRatio !== undefined &&
+    Number.isNaN(getAspectRatioValue(aspectRatio))
+  ) {
+    issues.push({
+      code: 'INVALID_ASPECT_RATIO',
+      message:
+        'Aspect ratio must be a positive number or a "width:height" string.',
+      path: 'aspectRatio',
+      value: aspectRatio
+    })
+  }
+
+  if (fit !== undefined && !fitModes.includes(fit)) {
+    issues.push({
+      code: 'INVALID_FIT',
+      message:
+        'Invalid fit. Supported fits are cover, contain, fill, inside and outside.',
+      path: 'fit',
+      value: fit
+    })
+  }
+
+  const gravityIsValid = gravity === undefined || gravities.includes(gravity)
+
+  if (!gravityIsValid) {
+    issues.push({
+      code: 'INVALID_GRAVITY',
+      message: `Invalid gravity. Supported gravities are ${gravities.join(', ')}.`,
+      path: 'gravity',
+      value: gravity
+    })
+  }
+
+  const focusIssues = [
+    ['focusX', 'Focus X', focusX],
+    ['focusY', 'Focus Y', focusY]
+  ] as const
+
+  for (const [path, label, value] of focusIssues) {
+    if (Number.isNaN(value)) {
+      issues.push({
+        code: 'INVALID_FOCAL_POINT',
+        message: `${label} must be a number.`,
+        path,
+        value
+      })
+    } else if (value !== undefined && (value < 0 || value > 1)) {
+      issues.push({
+        code: 'INVALID_FOCAL_POINT',
+        message: `${label} must be between 0 and 1.`,
+        path,
+        value
+      })
+    }
+  }
+
+  // Reported on the provided coordinate, so dropping it fixes the problem
+  if (focusX !== undefined && focusY === undefined) {
+    issues.push({
+      code: 'INVALID_FOCAL_POINT',
+      message: 'Focus X and focus Y must be provided together.',
+      path: 'focusX',
+      value: focusX
+    })
+  }
+
+  if (focusX === undefined && focusY !== undefined) {
+    issues.push({
+      code: 'INVALID_FOCAL_POINT',
+      message: 'Focus X and focus Y must be provided together.',
+      path: 'focusY',
+      value: focusY
+    })
+  }
+
+  if (gravity !== undefined && gravityIsValid && focusX !== undefined) {
+    issues.push({
+      code: 'INVALID_FOCAL_POINT',
+      message: 'Use either gravity or a focal point, not both.',
+      path: 'gravity',
+      value: gravity
+    })
+  }
+
+  issues.push(...getEffectIssues(options))
+
+  if (Number.isNaN(quality)) {
+    issues.push({
+      code: 'INVALID_QUALITY',
+      message: 'Quality must be a number.',
+      path: 'quality',
+      value: quality
+    })
+  } else if (quality !== undefined && (quality < 1 || quality > 100)) {
+    issues.push({
+      code: 'INVALID_QUALITY',
+      message: 'Quality must be between 1 and 100.',
+      path: 'quality',
+      value: quality
+    })
+  } else if (quality !== undefined && !Number.isInteger(quality)) {
+    issues.push({
+      code: 'INVALID_QUALITY',
+      message: 'Quality must be a whole number.',
+      path: 'quality',
+      value: quality
+    })
+  }
+
+  issues.push(...getSourceSizeIssues(options))
+
+  return issues
+}
+
+/**
+ * Validates transformation options without throwing, reporting every problem
+ * instead of only the first one.
+ *
+ * @param options - The transformation options to check
+ * @returns `{ success: true }`, or `{ success: false, issues }` with one issue per problem
+ *
+ * @example
+ * const result = validateTransformationOptions({ width: -1, quality: 150 })
+ *
+ * if (!result.success) {
+ *   for (const issue of result.issues) {
+ *     console.warn(`${issue.path}: ${issue.message}`)
+ *   }
+ * }
+ * // width: Width must be a positive number.
+ * // quality: Quality must be between 1 and 100.
+ */
+export function validateTransformationOptions(
+  options: TransformationOptions
+): ValidationResult {
+  const issues = getTransformationIssues(options)
+
+  return issues.length === 0 ? { success: true } : { issues, success: false }
+}
+
+/**
+ * Removes every invalid transformation option, keeping the valid ones
+ */
+export function withoutInvalidOptions<T extends TransformationOptions>(
+  options: T
+): T {
+  let remaining = options
+  let issues = getTransformationIssues(remaining)
+
+  // Dropping an option can invalidate another one, such as the other half of
+  // a focal point, so repeat until nothing is left to drop
+  while (issues.length > 0) {
+    const paths = new Set(issues.map((issue) => issue.path))
+
+    remaining = Object.fromEntries(
+      Object.entries(remaining).filter(([key]) => !paths.has(key))
+    ) as T
+    issues = getTransformationIssues(remaining)
+  }
+
+  return remaining
+}
+
+/**
+ * Resolves the policy for a call, falling back to the global configuration
+ */
+export function getInvalidOptionPolicy(
+  onInvalid: InvalidOptionPolicy | undefined
+): InvalidOptionPolicy {
+  const policy = onInvalid ?? getConfig().onInvalid ?? 'throw'
+
+  if (!invalidOptionPolicies.includes(policy)) {
+    throw new InvalidOptionError(
+      'INVALID_POLICY',
+      'Invalid onInvalid. Supported policies are throw, fallback-to-original and drop-option.',
+      { option: 'onInvalid', value: policy }
+    )
+  }
+
+  return policy
+}
+
+/**
+ * Converts an issue into the error thrown for it
+ */
+export function toInvalidOptionError(
+  issue: ValidationIssue
+): InvalidOptionError {
+  return new InvalidOptionError(issue.code, issue.message, {
+    option: issue.path,
+    value: issue.value
+  })
+}
+
+/**
+ * Converts an error thrown by the library into an issue
+ */
+export function toValidationIssue(error: PixelPuppyError): ValidationIssue {
+  return {
+    code: error.code,
+    message: error.message,
+    path: error.option ?? '',
+    ...(error.value === undefined ? {} : { value: error.value })
+  }
+}
+
+/**
+ * Whether an error is about an option, rather than about the project, the
+ * source URL or the URL layout, and so subject to the onInvalid policy
+ */
+export function isOptionError(error: unknown): error is PixelPuppyError {
+  if (error instanceof MissingOptionError) {
+    return error.code === 'MISSING_WIDTH' || error.code === 'MISSING_SIZES'
+  }
+
+  return (
+    error instanceof InvalidOptionError &&
+    error.code !== 'INVALID_ENDPOINT' &&
+    error.code !== 'INVALID_URL_STYLE'
+  )
+}
@@ -0,0 +1,8 @@
+export { PixelPuppyImage } from './pixel-puppy-image'
+
+export {
+  pixelPuppyKey,
+  providePixelPuppy,
+  usePixelPuppy,
+  type PixelPuppyPluginOptions
+} from './plugin'
@@ -0,0 +1,162 @@
+import { describe, it, expect } from 'vitest'
+import { createSSRApp, h } from 'vue'
+import { renderToString } from 'vue/server-renderer'
+
+import { getResponsiveImageAttributes } from '../responsive'
+import { PixelPuppyImage } from './pixel-puppy-image'
+import { providePixelPuppy, type PixelPuppyPluginOptions } from './plugin'
+
+function render(
+  props: Record<string, unknown>,
+  options?: PixelPuppyPluginOptions
+): Promise<string> {
+  const app = createSSRApp({
+    render: () => h(PixelPuppyImage, props as { src: string })
+  })
+
+  if (options) {
+    app.use(providePixelPuppy(options))
+  }
+
+  // Keep the expected warning for the missing-project case out of the output
+  app.config.warnHandler = () => {}
+
+  return renderToString(app)
+}
+
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;')
+}
+
+describe('PixelPuppyImage', () => {
+  const src = 'https://example.com/image.jpg'
+
+  describe('rendering', () => {
+    it('renders responsive attributes', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        alt: 'Photo',
+        width: 800
+      })
+
+      const attributes = getResponsiveImageAttributes('test-project', src, {
+        width: 800
+      })
+
+      expect(html).toContain(`src="${escapeAttribute(attributes.src)}"`)
+      expect(html).toContain(`srcset="${escapeAttribute(attributes.srcSet)}"`)
+      expect(html).toContain(`sizes="${attributes.sizes}"`)
+      expect(html).toContain('width="800"')
+      expect(html).toContain('alt="Photo"')
+    })
+
+    it('omits srcset and sizes in non-responsive mode', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        width: 800,
+        responsive: false
+      })
+
+      expect(html).not.toContain('srcset')
+      expect(html).not.toContain('sizes')
+      expect(html).toContain('width=800')
+    })
+
+    it('is responsive when the responsive prop is absent', async () => {
+      const html = await render({ project: 'test-project', src })
+
+      expect(html).toContain('srcset=')
+    })
+
+    it('falls through standard img attributes', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        class: 'rounded',
+        loading: 'lazy'
+      })
+
+      expect(html).toContain('class="rounded"')
+      expect(html).toContain('loading="lazy"')
+    })
+
+    it('does not render transformation options as attributes', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        format: 'avif',
+        quality: 40
+      })
+
+      expect(html).not.toContain('quality="40"')
+      expect(html).not.toContain(' project="')
+      expect(html).toContain('format=avif')
+    })
+
+    it('applies the onInvalid policy', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        width: -1,
+        onInvalid: 'fallback-to-original'
+      })
+
+      expect(html).toContain(`src="${src}"`)
+      expect(html).not.toContain('srcset')
+    })
+  })
+
+  describe('providePixelPuppy', () => {
+    it('renders placeholder styles', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        placeholder: 'blur'
+      })
+
+      expect(html).toContain('background-image:url(&#39;')
+      expect(html).toContain('blur=10')
+      expect(html).not.toContain(' placeholder="')
+    })
+
+    it('renders density descriptors with the density strategy', async () => {
+      const html = await render({
+        project: 'test-project',
+        src,
+        width: 64,
+        strategy: 'density',
+        densities: [1, 2]
+      })
+
+      expect(html).toContain('width=128 2x')
+      expect(html).not.toContain('sizes=')
+      expect(html).not.toContain(' strategy="')
+    })
+
+    it('uses project and baseUrl from the plugin', async () => {
+      const html = await render(
+        { src: '/images/hero.jpg' },
+        { project: 'provided-project', baseUrl: 'https://example.com' }
+      )
+
+      expect(html).toContain('project=provided-project')
+      expect(html).toContain('example.com%2Fimages%2Fhero.jpg')
+    })
+
+    it('lets the project prop override the plugin', async () => {
+      const html = await render(
+        { project: 'other-project', src: '/images/hero.jpg' },
+        { project: 'provided-project', baseUrl: 'https://example.com' }
+      )
+
+      expect(html).toContain('project=other-project')
+      expect(html).toContain('example.com%2Fimages%2Fhero.jpg')
+    })
+
+    it('throws error without project or plugin', async () => {
+      await expect(render({ src })).rejects.toThrow('project is required')
+    })
+  })
+})
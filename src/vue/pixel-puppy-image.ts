@@ -0,0 +1,152 @@
+import { computed, defineComponent, h, type PropType } from 'vue'
+
+import type { BreakpointRange } from '../breakpoints'
+import { createPixelPuppy } from '../client'
+import type { FitMode, Gravity } from '../dimensions'
+import type { FlipDirection, Rotation } from '../effects'
+import { MissingOptionError } from '../errors'
+import type { ImageFormat } from '../formats'
+import type { UrlStyle } from '../path-urls'
+import type { PlaceholderStrategy } from '../placeholder'
+import type { ResponsiveStrategy } from '../responsive'
+import type { SourceNormalizationOptions } from '../url-utils'
+import type { InvalidOptionPolicy } from '../validation'
+import { usePixelPuppy } from './plugin'
+
+/**
+ * Renders an img element with responsive Pixel Puppy attributes.
+ *
+ * Accepts every option of getResponsiveImageAttributes as props. Any other
+ * attribute (alt, class, loading, ...) falls through to the img element.
+ * The attributes are recomputed whenever a prop changes, and the component
+ * renders correctly with Vue's server renderer.
+ *
+ * @example
+ * <PixelPuppyImage
+ *   src="/images/hero.jpg"
+ *   alt="Hero"
+ *   sizes="(min-width: 768px) 50vw, 100vw"
+ *   loading="lazy"
+ * />
+ */
+export const PixelPuppyImage = defineComponent({
+  name: 'PixelPuppyImage',
+  props: {
+    aspectRatio: [Number, String],
+    baseUrl: String,
+    blur: Number,
+    breakpoints: Object as PropType<BreakpointRange>,
+    brightness: Number,
+    contrast: Number,
+    densities: Array as PropType<number[]>,
+    deviceBreakpoints: Array as PropType<number[]>,
+    endpoint: String,
+    fit: String as PropType<FitMode>,
+    flip: String as PropType<FlipDirection>,
+    focusX: Number,
+    focusY: Number,
+    format: String as PropType<ImageFormat>,
+    gravity: String as PropType<Gravity>,
+    grayscale: {
+      type: Boolean,
+      default: undefined
+    },
+    height: Number,
+    imageBreakpoints: Array as PropType<number[]>,
+    intrinsicHeight: Number,
+    intrinsicWidth: Number,
+    normalizeSource: {
+      type: [Boolean, Object] as PropType<boolean | SourceNormalizationOptions>,
+      default: undefined
+    },
+    onInvalid: String as PropType<InvalidOptionPolicy>,
+    placeholder: String as PropType<PlaceholderStrategy>,
+    /**
+     * Overrides the project from providePixelPuppy
+     */
+    project: String,
+    quality: Number,
+    responsive: {
+      type: Boolean,
+      // Keep absent props undefined instead of Vue's boolean default of false
+      default: undefined
+    },
+    rotate: [Number, String] as PropType<Rotation>,
+    sharpen: Number,
+    sizes: String,
+    src: {
+      type: String,
+      required: true
+    },
+    strategy: String as PropType<ResponsiveStrategy>,
+    urlStyle: String as PropType<UrlStyle>,
+    width: Number
+  },
+  setup(props) {
+    const contextClient = usePixelPuppy()
+
+    const attributes = computed(() => {
+      // A project prop that differs from the provided one gets its own client
+      // that still inherits the provided defaults
+      const client =
+        props.project && props.project !== contextClient?.project
+          ? createPixelPuppy({
+              ...contextClient?.getOptions(),
+              project: props.project
+            })
+          : contextClient
+
+      if (!client) {
+        throw new MissingOptionError(
+          'MISSING_PROJECT',
+          'project is required. Pass a project prop or install providePixelPuppy().',
+          { option: 'project' }
+        )
+      }
+
+      return client.responsive(props.src, {
+        aspectRatio: props.aspectRatio,
+        baseUrl: props.baseUrl,
+        blur: props.blur,
+        breakpoints: props.breakpoints,
+        brightness: props.brightness,
+        contrast: props.contrast,
+        densities: props.densities,
+        deviceBreakpoints: props.deviceBreakpoints,
+        endpoint: props.endpoint,
+        fit: props.fit,
+        flip: props.flip,
+        focusX: props.focusX,
+        focusY: props.focusY,
+        format: props.format,
+        gravity: props.gravity,
+        grayscale: props.grayscale,
+        height: props.height,
+        imageBreakpoints: props.imageBreakpoints,
+        intrinsicHeight: props.intrinsicHeight,
+        intrinsicWidth: props.intrinsicWidth,
+        normalizeSource: props.normalizeSource,
+        onInvalid: props.onInvalid,
+        placeholder: props.placeholder,
+        quality: props.quality,
+        responsive: props.responsive,
+        rotate: props.rotate,
+        sharpen: props.sharpen,
+        sizes: props.sizes,
+        strategy: props.strategy,
+        urlStyle: props.urlStyle,
+        width: props.width
+      })
+    })
+
+    return () =>
+      h('img', {
+        src: attributes.value.src,
+        srcset: attributes.value.srcSet || undefined,
+        sizes: attributes.value.sizes,
+        width: attributes.value.width ?? props.width,
+        height: attributes.value.height ?? props.height,
+        style: attributes.value.style
+      })
+  }
+})
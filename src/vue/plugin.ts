@@ -0,0 +1,61 @@
+import { inject, type InjectionKey, type Plugin } from 'vue'
+
+import {
+  createPixelPuppy,
+  type PixelPuppyClient,
+  type PixelPuppyClientOptions
+} from '../client'
+
+/**
+ * Injection key for the client provided by providePixelPuppy
+ */
+export const pixelPuppyKey: InjectionKey<PixelPuppyClient> =
+  Symbol('pixel-puppy')
+
+/**
+ * Options for providePixelPuppy. There is no signingSecret, since
+ * PixelPuppyImage never signs URLs and plugin options can end up in the
+ * client-side bundle.
+ */
+export type PixelPuppyPluginOptions = Omit<
+  PixelPuppyClientOptions,
+  'signingSecret'
+>
+
+/**
+ * Creates a Vue plugin that provides a project, baseUrl and other defaults to
+ * every PixelPuppyImage in the app.
+ *
+ * @param options - The project and default settings
+ * @returns A plugin to install with app.use()
+ *
+ * @example
+ * // main.ts
+ * app.use(providePixelPuppy({ project: 'my-project', baseUrl: 'https://example.com' }))
+ *
+ * @example
+ * // Nuxt plugin
+ * export default defineNuxtPlugin((nuxtApp) => {
+ *   nuxtApp.vueApp.use(providePixelPuppy({ project: 'my-project' }))
+ * })
+ */
+export function providePixelPuppy(options: PixelPuppyPluginOptions): Plugin {
+  // Drop a secret passed by untyped callers, like the React provider does
+  const { signingSecret: _, ...clientOptions } =
+    options as PixelPuppyClientOptions
+  const client = createPixelPuppy(clientOptions)
+
+  return {
+    install(app) {
+      app.provide(pixelPuppyKey, client)
+    }
+  }
+}
+
+/**
+ * Returns the client provided by providePixelPuppy, or null when there is
+ * none. Must be called from a component's setup.
+ */
+export function usePixelPuppy(): PixelPuppyClient | null {
+  return inject(pixelPuppyKey, null)
+}